@@ -24,12 +24,12 @@ type PrimitiveMap = {
 
 type ColumnToType<T> =
 	/* List ----------------------------------------------------------- */
-	T extends { tag: "List"; payload: infer P }
+	T extends { tag: "List"; data: infer P }
 		? P extends { of: infer Inner }
 		? ColumnToType<Inner>[]
 		: never
 	/* Object --------------------------------------------------------- */
-	: T extends { tag: "Object"; payload: infer P }
+	: T extends { tag: "Object"; data: infer P }
 		? P extends { props: infer Props }
 		? { [K in keyof Props]: ColumnToType<Props[K]> }
 		: never
@@ -51,19 +51,19 @@ const Col = IronEnum<ColTypes>();
 
 // example usage
 const ProductTable = {
-	id: Col.Int(),
-	name: Col.Text(),
-	tags: Col.List({ of: Col.Text() }),
+	id: Col.Int({}),
+	name: Col.Text({}),
+	tags: Col.List({ of: Col.Text({}) }),
 	info: Col.Object({
 		props: {
 			dimensions: Col.Object({
 				props: {
-					width: Col.Int(),
-					height: Col.Int(),
-					depth: Col.Int()
+					width: Col.Int({}),
+					height: Col.Int({}),
+					depth: Col.Int({})
 				}
 			}),
-			gallery: Col.List({ of: Col.Text() })
+			gallery: Col.List({ of: Col.Text({}) })
 		}
 	})
 }
@@ -102,3 +102,14 @@ const demo: ProductRow = {
 };
 
 console.log(demo);
+
+// fold the schema bottom-up into a readable type description
+const describe = (col: EnumFactoryUnion<ColTypes>) => Col._.fold<string>(col, {
+	Int: () => "int",
+	Text: () => "text",
+	List: ({ of }) => `${of}[]`,
+	Object: ({ props }) => `{ ${Object.entries(props).map(([k, v]) => `${k}: ${v}`).join("; ")} }`
+});
+
+console.log(describe(ProductTable.info));
+// { dimensions: { width: int; height: int; depth: int }; gallery: text[] }
@@ -84,10 +84,32 @@ export type VariantsRecord = {
  * 		console.log(s.tag);
  * }
  */
-export type IronEnumVariantUnion<ALL extends VariantsRecord> = {
-	[K in keyof ALL & string]: IronEnumVariant<K, ALL[K], ALL>;
+export type IronEnumVariantUnion<
+	ALL extends VariantsRecord,
+	W extends WireOptions = DefaultWire
+> = {
+	[K in keyof ALL & string]: IronEnumVariant<K, ALL[K], ALL, W>;
 }[keyof ALL & string];
 
+/**
+ * Union of an enum's variants, usable inside the enum's own definition to
+ * build recursive enums such as ASTs or schema trees.
+ *
+ * Self references must sit inside an object payload (`{ of: ... }`, not a
+ * bare array or tuple), otherwise TypeScript reports a circular type.
+ *
+ * @example
+ * type Expr = {
+ * 		Num: number;
+ * 		Add: { args: [EnumFactoryUnion<Expr>, EnumFactoryUnion<Expr>] };
+ * };
+ * const Expr = IronEnum<Expr>();
+ * const tree = Expr.Add({ args: [Expr.Num(1), Expr.Num(2)] });
+ */
+export type EnumFactoryUnion<
+	ALL extends VariantsRecord,
+	W extends WireOptions = DefaultWire
+> = IronEnumVariantUnion<ALL, W>;
 
 /* =============================================================================
  * Constructor and Return Type Helpers
@@ -99,10 +121,16 @@ export type IronEnumVariantUnion<ALL extends VariantsRecord> = {
  * - If the payload type is `undefined`, the constructor is nullary.
  * - Otherwise, the constructor requires the payload.
  */
-type VariantConstructor<Default, K extends string, ALL extends VariantsRecord> =
+type VariantConstructor<
+	Default,
+	K extends string,
+	ALL extends VariantsRecord,
+	W extends WireOptions = DefaultWire,
+	M = {}
+> =
 	[Default] extends [undefined]
-	? () => IronEnumVariant<K, Default, ALL>
-	: (data: Default) => IronEnumVariant<K, Default, ALL>;
+	? () => IronEnumVariant<K, Default, ALL, W> & M
+	: (data: Default) => IronEnumVariant<K, Default, ALL, W> & M;
 
 /**
  * Return type calculation used by `if` and `ifNot`.
@@ -129,11 +157,13 @@ type IfReturn<RIf, RElse> = [RIf, RElse] extends [void, void]
  * @template TAG     The discriminant string literal
  * @template PAYLOAD The payload type carried by this variant
  * @template ALL     The full `VariantsRecord` for the enum
+ * @template W       The wire format chosen for the enum (adjacent by default)
  */
 export type IronEnumVariant<
 	TAG extends keyof ALL & string,
 	PAYLOAD,
-	ALL extends VariantsRecord
+	ALL extends VariantsRecord,
+	W extends WireOptions = DefaultWire
 > = {
 	/** Discriminant of the variant. */
 	readonly tag: TAG;
@@ -147,8 +177,73 @@ export type IronEnumVariant<
 	 * // Create a new variant from the same factory
 	 * const ready = loading.instance.Ready({ finishedAt: new Date() });
 	 */
-	readonly instance: IronEnumFactory<ALL>;
-} & EnumMethods<ALL, TAG>;
+	readonly instance: IronEnumFactory<ALL, W>;
+} & EnumMethods<ALL, TAG, W>;
+
+/**
+ * How variants are represented on the wire, mirroring serde's enum
+ * representations.
+ *
+ * - `adjacent` (default): `{ [tag]: "Variant", [content]: payload }`, keys
+ *   default to `"tag"` and `"data"`.
+ * - `internal`: `{ [tag]: "Variant", ...payload }`, payloads must be objects.
+ *   The tag key defaults to `"tag"`.
+ * - `external`: `{ "Variant": payload }`, unit variants become `"Variant"`.
+ * - `untagged`: the bare payload. Parsing needs the `resolve` option.
+ *
+ * For named enums, `adjacent` and `internal` also write the enum name under
+ * `enumKey` (default `"enum"`) so an `EnumRegistry` can revive them.
+ */
+export type WireOptions =
+	| { readonly tagging: "adjacent"; readonly tag?: string; readonly content?: string; readonly enumKey?: string }
+	| { readonly tagging: "internal"; readonly tag?: string; readonly enumKey?: string }
+	| { readonly tagging: "external" }
+	| { readonly tagging: "untagged" };
+
+/** Wire format used when none is configured: `{ tag, data }`. */
+type DefaultWire = { readonly tagging: "adjacent" };
+
+/** Tag key for `adjacent` / `internal` wire formats. */
+type WireTagKey<W> = W extends { readonly tag: infer T extends string } ? T : "tag";
+
+/** Content key for the `adjacent` wire format. */
+type WireContentKey<W> = W extends { readonly content: infer C extends string } ? C : "data";
+
+/** Wire shape of a single variant for the given wire format. */
+type WireShape<K extends string, P, W extends WireOptions> =
+	W extends { readonly tagging: "external" }
+	? [P] extends [undefined] ? K : { readonly [_ in K]: P }
+	: W extends { readonly tagging: "internal" }
+	? { readonly [_ in WireTagKey<W>]: K } & ([P] extends [undefined] ? {} : P)
+	: W extends { readonly tagging: "untagged" }
+	? P
+	: { readonly [F in WireTagKey<W> | WireContentKey<W>]: F extends WireTagKey<W> ? K : P };
+
+/** Accepted parse input for a single variant; unit payloads may be omitted. */
+type WireInput<K extends string, P, W extends WireOptions> =
+	W extends { readonly tagging: "adjacent" }
+	? [P] extends [undefined]
+		? { readonly [_ in WireTagKey<W>]: K } & { readonly [_ in WireContentKey<W>]?: P }
+		: WireShape<K, P, W>
+	: WireShape<K, P, W>;
+
+/** Union of accepted parse inputs for an enum. */
+type WireInputOf<ALL extends VariantsRecord, W extends WireOptions> = {
+	[K in keyof ALL & string]: WireInput<K, ALL[K], W>;
+}[keyof ALL & string];
+
+/** Tag(s) carried by a parse input; untagged input may be any tag. */
+type WireTagOf<J, ALL extends VariantsRecord, W extends WireOptions> =
+	W extends { readonly tagging: "external" }
+	? (J extends string ? J : keyof J) & keyof ALL & string
+	: W extends { readonly tagging: "untagged" }
+	? keyof ALL & string
+	: J extends { readonly [_ in WireTagKey<W>]: infer T } ? T & keyof ALL & string : never;
+
+/** The variant (or union of variants) for the given tag(s). */
+type VariantOfTag<ALL extends VariantsRecord, W extends WireOptions, TAG extends keyof ALL & string> = {
+	[K in TAG]: IronEnumVariant<K, ALL[K], ALL, W>;
+}[TAG];
 
 /**
  * Serializable wire format for a variant instance.
@@ -161,14 +256,26 @@ export type IronEnumVariant<
  * const json = JSON.stringify(s);
  * // json === '{"tag":"Error","data":{"message":"oops","code":500}}'
  */
-export type IronEnumWireFormat<ALL extends VariantsRecord> = {
-	[K in keyof ALL & string]: { tag: K; data: ALL[K] };
+export type IronEnumWireFormat<
+	ALL extends VariantsRecord,
+	W extends WireOptions = DefaultWire
+> = {
+	[K in keyof ALL & string]: WireShape<K, ALL[K], W>;
 }[keyof ALL & string];
 
 /* =============================================================================
  * Methods available on every variant instance
  * ============================================================================= */
 
+/**
+ * Structural shape shared by every variant of an enum, including the
+ * non-distributed `ResultVariant` / `OptionVariant` forms.
+ */
+type AnyVariantOf<ALL extends VariantsRecord> = {
+	readonly tag: keyof ALL & string;
+	readonly data: ALL[keyof ALL & string];
+};
+
 /**
  * Helper to exclude a specific variant from the union by its tag.
  */
@@ -186,9 +293,14 @@ type ExcludeVariant<
  * - `match` / `matchAsync` for flexible pattern matching.
  * - `matchExhaustive` for compile-time exhaustive handling.
  */
-export interface EnumMethods<ALL extends VariantsRecord, TAG extends keyof ALL & string> {
+export interface EnumMethods<
+	ALL extends VariantsRecord,
+	TAG extends keyof ALL & string,
+	W extends WireOptions = DefaultWire
+> {
 	/**
-	 * Convert the instance into `{ tag, data }` for JSON or debugging.
+	 * Convert the instance into its wire format (`{ tag, data }` unless the
+	 * factory was created with another `wire` option) for JSON or debugging.
 	 * Automatically called by `JSON.stringify`.
 	 *
 	 * @example
@@ -196,7 +308,7 @@ export interface EnumMethods<ALL extends VariantsRecord, TAG extends keyof ALL &
 	 * const json = JSON.stringify(s);
 	 * // json === '{"tag":"Ready","data":{...}}'
 	 */
-	toJSON(): { readonly tag: TAG; readonly data: ALL[TAG] };
+	toJSON(): WireShape<TAG, ALL[TAG], W>;
 
 	/**
 	 * Predicate that narrows the variant type on success.
@@ -209,7 +321,7 @@ export interface EnumMethods<ALL extends VariantsRecord, TAG extends keyof ALL &
 	 */
 	is<K extends keyof ALL & string>(
 		key: K
-	): this is IronEnumVariant<K, ALL[K], ALL>;
+	): this is IronEnumVariant<K, ALL[K], ALL, W>;
 
 	/**
 	 * Execute a callback when the discriminant equals `key`.
@@ -242,7 +354,7 @@ export interface EnumMethods<ALL extends VariantsRecord, TAG extends keyof ALL &
 	 */
 	if<K extends keyof ALL & string, RIf = void, RElse = void>(
 		key: K,
-		success?: (payload: ALL[K], self: IronEnumVariant<K, ALL[K], ALL>) => RIf,
+		success?: (payload: ALL[K], self: IronEnumVariant<K, ALL[K], ALL, W>) => RIf,
 		failure?: (self: ExcludeVariant<ALL, K>) => RElse
 	): IfReturn<RIf, RElse>;
 
@@ -267,7 +379,7 @@ export interface EnumMethods<ALL extends VariantsRecord, TAG extends keyof ALL &
 	ifNot<K extends keyof ALL & string, RIf = void, RElse = void>(
 		key: K,
 		success?: (self: ExcludeVariant<ALL, K>) => RIf,
-		failure?: (payload: ALL[K], self: IronEnumVariant<K, ALL[K], ALL>) => RElse
+		failure?: (payload: ALL[K], self: IronEnumVariant<K, ALL[K], ALL, W>) => RElse
 	): IfReturn<RIf, RElse>;
 
 	/**
@@ -288,6 +400,12 @@ export interface EnumMethods<ALL extends VariantsRecord, TAG extends keyof ALL &
 	 * 		Error: ({ message }) => message,
 	 * 		_: (self) => `Current state: ${self.tag}`,
 	 * });
+	 *
+	 * // With guarded arms, tried in order before `_`
+	 * const label = state.match({
+	 * 		Error: [when({ code: 404 }, () => "Not found"), (e) => e.message],
+	 * 		_: () => "fine",
+	 * });
 	 */
 	match<A extends MatchFns<ALL>>(callbacks: A): MatchResult<A>;
 
@@ -319,29 +437,122 @@ export interface EnumMethods<ALL extends VariantsRecord, TAG extends keyof ALL &
 	 * });
 	 */
 	matchExhaustive<A extends ExhaustiveFns<ALL>>(callbacks: A): MatchResult<A>;
+
+	/**
+	 * Structural equality. Two variants are equal when their tags match and
+	 * their payloads are deeply equal. Nested variants, Dates, Maps, Sets,
+	 * arrays and plain objects are compared by content.
+	 *
+	 * @example
+	 * Status.Ready({ at: new Date(0) }).equals(Status.Ready({ at: new Date(0) })); // true
+	 * Status.Loading().equals(Status.Ready({ at: new Date(0) })); // false
+	 */
+	equals(other: AnyVariantOf<ALL>): boolean;
+
+	/**
+	 * Stable structural hash (unsigned 32-bit integer).
+	 * Variants that are `equals` always produce the same hash.
+	 *
+	 * @example
+	 * const seen = new Map<number, typeof Status._.typeOf>();
+	 * seen.set(status.hash(), status);
+	 */
+	hash(): number;
+
+	/**
+	 * Compare with another variant by declaration order (`keys`), breaking
+	 * ties on the payload. Returns -1, 0 or 1. See `_.compare`.
+	 *
+	 * @example
+	 * Priority.Low().cmp(Priority.High()); // -1
+	 */
+	cmp(other: AnyVariantOf<ALL>, by?: PayloadComparator<ALL>): number;
+
+	/** `true` when this variant sorts before `other`. */
+	lt(other: AnyVariantOf<ALL>, by?: PayloadComparator<ALL>): boolean;
+
+	/** `true` when this variant sorts after `other`. */
+	gt(other: AnyVariantOf<ALL>, by?: PayloadComparator<ALL>): boolean;
+
+	/**
+	 * New variant of the same tag with `patch` merged into the payload.
+	 * Shallow by default; pass `{ deep: true }` to merge nested plain objects.
+	 * The original variant is left untouched.
+	 *
+	 * @example
+	 * const next = state.with({ progress: 50 });
+	 * const moved = shape.with({ origin: { x: 1 } }, { deep: true });
+	 */
+	with(patch: Partial<ALL[TAG]>): IronEnumVariant<TAG, ALL[TAG], ALL, W>;
+	with(patch: DeepPartial<ALL[TAG]>, options: { deep: true }): IronEnumVariant<TAG, ALL[TAG], ALL, W>;
+
+	/**
+	 * New variant of the same tag with the payload returned by `fn`.
+	 *
+	 * @example
+	 * const next = counter.update((n) => n + 1);
+	 */
+	update(fn: (data: ALL[TAG]) => ALL[TAG]): IronEnumVariant<TAG, ALL[TAG], ALL, W>;
+
+	/**
+	 * Like `update`, but only when this variant is `tag`; otherwise returns
+	 * the variant unchanged.
+	 *
+	 * @example
+	 * const next = state.mapData("Loading", (d) => ({ ...d, progress: d.progress + 10 }));
+	 */
+	mapData<K extends keyof ALL & string>(
+		tag: K,
+		fn: (data: ALL[K]) => ALL[K]
+	): IronEnumVariant<TAG, ALL[TAG], ALL, W>;
 }
 
+/**
+ * Recursive `Partial` used by `with(patch, { deep: true })`. Arrays, Dates,
+ * Maps, Sets and variants are replaced rather than merged.
+ */
+type DeepPartial<T> = T extends readonly unknown[] | Date | Map<any, any> | Set<any> | AnyVariant | ((...args: any[]) => unknown)
+	? T
+	: T extends object
+		? { [K in keyof T]?: DeepPartial<T[K]> }
+		: T;
+
 /* =============================================================================
  * Internal Type Utilities for Matching
  * ============================================================================= */
 
 type NonOptional<T> = { [K in keyof T]-?: T[K] };
 
-/** Map each tag to a synchronous handler `(payload, self) => R`. */
-type ObjectToFunctionMapBase<T extends VariantsRecord, R> = {
-	[K in keyof T]?: (payload: T[K], self: IronEnumVariant<K & string, T[K], T>) => R;
+/** Plain handler for a single tag: `(payload, self) => R`. */
+type VariantHandler<T extends VariantsRecord, K extends keyof T, R> = (
+	payload: T[K],
+	self: IronEnumVariant<K & string, T[K], T>
+) => R;
+
+/**
+ * Ordered arms for a single tag. Guarded arms are tried first to last and a
+ * plain handler acts as the catch-all for that tag.
+ *
+ * When `TERMINAL` is true the list must end with a plain handler, so the tag
+ * is always handled without relying on a `_` fallback.
+ */
+type ArmList<T extends VariantsRecord, K extends keyof T, R, TERMINAL extends boolean> =
+	TERMINAL extends true
+	? readonly [...MatchArm<T[K], R>[], VariantHandler<T, K, R>]
+	: readonly (MatchArm<T[K], R> | VariantHandler<T, K, R>)[];
+
+/** Map each tag to a handler or a list of guarded arms. */
+type ObjectToFunctionMapBase<T extends VariantsRecord, R, TERMINAL extends boolean> = {
+	[K in keyof T]?: VariantHandler<T, K, R> | ArmList<T, K, R, TERMINAL>;
 };
 
 /** Sync handler options. */
-type ObjectToFunctionMap<T extends VariantsRecord> = ObjectToFunctionMapBase<T, any>;
+type ObjectToFunctionMap<T extends VariantsRecord, TERMINAL extends boolean> =
+	ObjectToFunctionMapBase<T, any, TERMINAL>;
 
 /** Async handler options. */
-type ObjectToFunctionMapAsync<T extends VariantsRecord> = ObjectToFunctionMapBase<
-	T,
-	Promise<any>
->;
-
-
+type ObjectToFunctionMapAsync<T extends VariantsRecord, TERMINAL extends boolean> =
+	ObjectToFunctionMapBase<T, Promise<any>, TERMINAL>;
 
 /**
  * Valid sync match configurations:
@@ -349,8 +560,8 @@ type ObjectToFunctionMapAsync<T extends VariantsRecord> = ObjectToFunctionMapBas
  * 2) Provide partial tags plus `_` fallback.
  */
 type MatchFns<X extends VariantsRecord> =
-	| NonOptional<ObjectToFunctionMap<X>>
-	| (ObjectToFunctionMap<X> & { _: (self: IronEnumVariantUnion<X>) => any });
+	| NonOptional<ObjectToFunctionMap<X, true>>
+	| (ObjectToFunctionMap<X, false> & { _: (self: IronEnumVariantUnion<X>) => any });
 
 /**
  * Valid async match configurations:
@@ -358,566 +569,3036 @@ type MatchFns<X extends VariantsRecord> =
  * 2) Provide partial tags plus `_` fallback.
  */
 type MatchFnsAsync<X extends VariantsRecord> =
-	| NonOptional<ObjectToFunctionMapAsync<X>>
-	| (ObjectToFunctionMapAsync<X> & {
+	| NonOptional<ObjectToFunctionMapAsync<X, true>>
+	| (ObjectToFunctionMapAsync<X, false> & {
 		_: (self: IronEnumVariantUnion<X>) => Promise<any>;
 	});
 
 /** Exhaustive mapping: all tags required, no `_` fallback allowed. */
 type ExhaustiveFns<X extends VariantsRecord> = {
-	[K in keyof X & string]: (
-		payload: X[K],
-		self: IronEnumVariant<K, X[K], X>
-	) => any;
+	[K in keyof X & string]: VariantHandler<X, K, any> | ArmList<X, K, any, true>;
 };
 
-/** Extract the unified return type of a match dispatch. */
-type MatchResult<A> = A extends { [K: string]: (...args: any) => infer R }
+/** Return type of a single handler or arm list. */
+type HandlerResult<H> = H extends (...args: any) => infer R
 	? R
+	: H extends readonly (infer I)[]
+	? I extends MatchArm<any, infer R>
+		? R
+		: I extends (...args: any) => infer R
+		? R
+		: never
 	: never;
 
+/** Extract the unified return type of a match dispatch. */
+type MatchResult<A> = { [K in keyof A]-?: HandlerResult<A[K]> }[keyof A];
+
 /* =============================================================================
- * Factory Implementation
+ * Errors
  * ============================================================================= */
 
+/** Stable identifiers carried by every `IronEnumError` as `code`. */
+export type IronEnumErrorCode =
+	| "UNEXPECTED_VARIANT"
+	| "INVALID_WIRE_FORMAT"
+	| "UNKNOWN_ENUM"
+	| "NON_EXHAUSTIVE_MATCH"
+	| "UNWRAP_ERR"
+	| "UNWRAP_OK"
+	| "UNWRAP_NONE"
+	| "RESERVED_KEY"
+	| "KEYS_REQUIRED"
+	| "RESOLVE_REQUIRED"
+	| "INVALID_REGISTRATION"
+	| "INVALID_PAYLOAD"
+	| "ILLEGAL_TRANSITION";
+
 /**
- * Create a concrete variant instance and attach all methods.
+ * Base class of every error thrown by iron-enum. Branch on `code` (or on the
+ * subclass) instead of matching messages, which may change between releases.
  *
- * This function centralizes the instance layout and avoids per-call
- * function allocation differences across factories.
+ * @example
+ * try { Status._.parse(input); }
+ * catch (e) { if (e instanceof IronEnumError && e.code === "UNEXPECTED_VARIANT") ... }
  */
-function enumFactory<
-	ALL extends VariantsRecord,
-	TAG extends keyof ALL & string
->(
-	_allVariants: ALL,
-	tag: TAG,
-	data: ALL[TAG],
-	instance: IronEnumFactory<ALL>
-): IronEnumVariant<TAG, ALL[TAG], ALL> {
-	if (tag === "_") throw new Error("'_' is reserved as a fallback key.");
+export class IronEnumError extends Error {
+	readonly code: IronEnumErrorCode;
+	/** Underlying value that caused the failure, when there is one. */
+	readonly cause?: unknown;
 
-	// Self reference enables methods to pass a stable instance shape.
-	const self = {} as IronEnumVariant<TAG, ALL[TAG], ALL>;
+	constructor(code: IronEnumErrorCode, message: string, options?: { cause?: unknown }) {
+		super(message);
+		this.name = new.target.name;
+		this.code = code;
+		if (options && "cause" in options) this.cause = options.cause;
+	}
+}
 
-	const is = <K extends keyof ALL & string>(key: K): boolean => (key as string) === (tag as string);
+/**
+ * Thrown by `_.parse`, `_.fromJSON` and registries when the input is not a
+ * valid variant of the enum. The offending value is available as `input`.
+ */
+export class IronEnumParseError extends IronEnumError {
+	readonly input: unknown;
 
-	const _if = <K extends keyof ALL & string, RIf = void, RElse = void>(
-		key: K,
-		success?: (payload: ALL[K], self: IronEnumVariant<K, ALL[K], ALL>) => RIf,
-		failure?: (self: IronEnumVariantUnion<ALL>) => RElse
-	): IfReturn<RIf, RElse> => {
-		const hit = key === (tag as unknown as K);
-		if (hit) {
-			if (success) {
-				const r = (success as any)(data, self) as RIf;
-				return (r === undefined ? true : r) as IfReturn<RIf, RElse>;
-			}
-			return true as IfReturn<RIf, RElse>;
-		}
-		if (failure) {
-			const r = failure(self) as RElse;
-			return (r === undefined ? false : r) as IfReturn<RIf, RElse>;
-		}
-		return false as IfReturn<RIf, RElse>;
-	};
+	constructor(
+		code: "UNEXPECTED_VARIANT" | "INVALID_WIRE_FORMAT" | "UNKNOWN_ENUM",
+		message: string,
+		input: unknown
+	) {
+		super(code, message);
+		this.input = input;
+	}
+}
 
-	const _ifNot = <K extends keyof ALL & string, RIf = void, RElse = void>(
-		key: K,
-		success?: (self: IronEnumVariantUnion<ALL>) => RIf,
-		failure?: (payload: ALL[K], self: IronEnumVariant<K, ALL[K], ALL>) => RElse
-	): IfReturn<RIf, RElse> => {
-		const miss = key !== (tag as unknown as K);
-		if (miss) {
-			if (success) {
-				const r = success(self) as RIf;
-				return (r === undefined ? true : r) as IfReturn<RIf, RElse>;
-			}
-			return true as IfReturn<RIf, RElse>;
-		}
-		if (failure) {
-			const r = (failure as any)(data, self) as RElse;
-			return (r === undefined ? false : r) as IfReturn<RIf, RElse>;
-		}
-		return false as IfReturn<RIf, RElse>;
-	};
+/**
+ * Thrown when no handler (and no `_` fallback) accepts a variant, or when a
+ * `_.matcher` is built without handlers for every tag.
+ */
+export class NonExhaustiveMatchError extends IronEnumError {
+	/** Unhandled tags; comma-joined tag tuples for `matchAll`. */
+	readonly tags: readonly string[];
+	/** The variant (or tuple of variants) being matched, if any. */
+	readonly variant: unknown;
 
-	const match = (callbacks: MatchFns<ALL>) => {
-		const specific = (callbacks as any)[tag];
-		const cb = specific ?? (callbacks as any)._;
-		if (!cb) {
-			throw new Error(`No handler for '${String(tag)}' and no '_' fallback`);
-		}
-		return specific ? cb(data, self) : cb(self);
-	};
+	constructor(message: string, tags: readonly string[], variant?: unknown) {
+		super("NON_EXHAUSTIVE_MATCH", message);
+		this.tags = tags;
+		this.variant = variant;
+	}
+}
 
-	const matchAsync = async (callbacks: MatchFnsAsync<ALL>) => {
-		const specific = (callbacks as any)[tag];
-		const cb = specific ?? (callbacks as any)._;
-		if (!cb) {
-			throw new Error(`No handler for '${String(tag)}' and no '_' fallback`);
-		}
-		return specific ? cb(data, self) : cb(self);
-	};
+/**
+ * Thrown by `unwrap` / `expect`-style accessors on `Err` and `None`, and by
+ * `unwrapErr` / `expectErr` on `Ok`. For `Err`, `cause` holds the original
+ * error payload, whatever its type.
+ *
+ * @example
+ * try { Err("denied").unwrap(); }
+ * catch (e) { (e as UnwrapError).cause; // "denied" }
+ */
+export class UnwrapError extends IronEnumError {
+	/** The variant that was unwrapped. */
+	readonly variant: unknown;
 
-	const matchExhaustive = (callbacks: ExhaustiveFns<ALL>) => {
-		const cb = (callbacks as any)[tag];
-		return cb(data, self);
-	};
+	constructor(code: "UNWRAP_ERR" | "UNWRAP_OK" | "UNWRAP_NONE", message: string, variant: unknown, cause?: unknown) {
+		super(code, message, code === "UNWRAP_ERR" ? { cause } : undefined);
+		this.variant = variant;
+	}
+}
 
-	const selfProperties: IronEnumVariant<TAG, ALL[TAG], ALL> = {
-		tag,
-		data,
-		instance,
-		toJSON: () => ({ tag, data }) as any,
-		is: is as any,
-		if: _if as any,
-		ifNot: _ifNot as any,
-		match: match as any,
-		matchAsync: matchAsync as any,
-		matchExhaustive: matchExhaustive as any,
-	};
+/**
+ * Returned (inside an `Err`) by state machines when an event is not allowed
+ * in the current state.
+ */
+export class IllegalTransitionError extends IronEnumError {
+	readonly state: unknown;
+	readonly event: unknown;
+
+	constructor(state: AnyVariant, event: AnyVariant) {
+		super("ILLEGAL_TRANSITION", `Event '${event.tag}' is not allowed in state '${state.tag}'`);
+		this.state = state;
+		this.event = event;
+	}
+}
 
-	Object.assign(self, selfProperties);
-	return self;
+/**
+ * Thrown when an enum is defined or configured incorrectly: reserved names,
+ * operations that need `keys`, invalid registrations, or payloads an
+ * operation cannot handle (wire formats, `with`, default ordering).
+ */
+export class IronEnumDefinitionError extends IronEnumError {
+	constructor(
+		code: "RESERVED_KEY" | "KEYS_REQUIRED" | "RESOLVE_REQUIRED" | "INVALID_REGISTRATION" | "UNEXPECTED_VARIANT" | "INVALID_PAYLOAD",
+		message: string
+	) {
+		super(code, message);
+	}
 }
 
 /* =============================================================================
- * Main Enum Builder
+ * Development Diagnostics
  * ============================================================================= */
 
+/** Kinds of problems reported in development mode. */
+export type DiagnosticCode =
+	/** A handler key is not one of the enum's tags (usually a typo). */
+	| "UNKNOWN_HANDLER"
+	/** A tag has no handler and there is no `_` fallback. */
+	| "MISSING_HANDLER"
+	/** A `_` arm that can never run, or one passed to `matchExhaustive`. */
+	| "STRAY_FALLBACK"
+	/** A variant listed in `units` was given data. */
+	| "UNEXPECTED_DATA";
+
+/** A problem found by development-mode checks. */
+export type Diagnostic = {
+	readonly code: DiagnosticCode;
+	readonly message: string;
+	/** Name of the enum, if it has one. */
+	readonly enum: string | undefined;
+	readonly tag?: string;
+};
+
+/** Global settings, read each time a variant is constructed. */
+const devConfig: { dev: boolean; onDiagnostic: (d: Diagnostic) => void } = {
+	dev: false,
+	onDiagnostic: (d) => console.warn(`[iron-enum] ${d.message}`),
+};
+
 /**
- * Runtime factory for an enum, where each key is a constructor for its variant.
+ * Change global settings. `dev: true` turns on diagnostics for variants built
+ * afterwards by every factory that does not pass its own `dev` option,
+ * including factories created before the call; `onDiagnostic` replaces the
+ * default `console.warn` reporter.
  *
- * @example
- * const Status = IronEnum<{
- * Loading: undefined;
- * Ready: { count: number };
- * }>();
+ * Variants built outside development mode skip every check.
  *
- * const s1 = Status.Loading(); // { tag: "Loading", data: undefined }
- * const s2 = Status.Ready({ count: 1 }); // { tag: "Ready", data: { count: 1 } }
+ * @example
+ * configure({ dev: process.env.NODE_ENV !== "production" });
+ * configure({ onDiagnostic: (d) => { throw new Error(d.message); } });
  */
-export type IronEnumFactory<ALL extends VariantsRecord> = {
-	[K in keyof ALL & string]: VariantConstructor<ALL[K], K, ALL>;
-} & {
-	/**
-	 * Utilities and [TYPE ONLY] metadata exposed via the `_` property.
-	 *
-	 * The fields marked [TYPE ONLY] exist only for type access in code and do not
-	 * exist at runtime. They intentionally evaluate to `never` at runtime.
-	 */
-	_: EnumProperties<ALL, {}>;
-};
+export function configure(options: {
+	dev?: boolean;
+	onDiagnostic?: (diagnostic: Diagnostic) => void;
+}): void {
+	if (options.dev !== undefined) devConfig.dev = options.dev;
+	if (options.onDiagnostic) devConfig.onDiagnostic = options.onDiagnostic;
+}
 
 /**
- * Utility metadata exposed on the factory via `_`.
- *
- * Includes parsers and [TYPE ONLY] accessors for tags, payload union, and
- * the union instance type.
+ * Build a reporter for one factory. Each distinct message is reported once,
+ * so checks inside hot loops do not flood the console.
  */
-export type EnumProperties<ALL extends VariantsRecord, AddedProps> = {
-	/**
-	 * [TYPE ONLY] Union of tag names.
-	 *
-	 * @example
-	 * const Status = IronEnum<{ A: 0; B: 1 }>();
-	 * type StatusTags = typeof Status._.typeTags; // "A" | "B"
-	 */
-	readonly typeTags: keyof ALL & string;
+function createReporter(name: string | undefined): (code: DiagnosticCode, message: string, tag?: string) => void {
+	const seen = new Set<string>();
+	return (code, message, tag) => {
+		if (seen.has(message)) return;
+		seen.add(message);
+		devConfig.onDiagnostic({ code, message, enum: name, tag });
+	};
+}
 
-	/**
-	 * [TYPE ONLY] Union of payload values.
-	 *
-	 * @example
-	 * const Status = IronEnum<{ A: 0; B: 1 }>();
-	 * type StatusData = typeof Status._.typeData; // 0 | 1
-	 */
-	readonly typeData: ALL[keyof ALL];
+/** Report typos, missing tags and unreachable `_` arms in a handler object. */
+function checkHandlers(
+	callbacks: Record<string, unknown>,
+	keys: readonly string[] | undefined,
+	exhaustive: boolean,
+	report: ReturnType<typeof createReporter>
+): void {
+	if (!keys?.length) return;
+	for (const k of Object.keys(callbacks)) {
+		if (k !== "_" && !keys.includes(k)) {
+			report("UNKNOWN_HANDLER", `Handler '${k}' does not match any variant (expected one of ${keys.join(", ")})`, k);
+		}
+	}
+	const missing = keys.filter((k) => !isTerminalHandler(callbacks[k]));
+	if ("_" in callbacks) {
+		if (exhaustive) {
+			report("STRAY_FALLBACK", "matchExhaustive ignores the '_' arm");
+		} else if (!missing.length) {
+			report("STRAY_FALLBACK", "The '_' arm is unreachable: every variant has a handler");
+		}
+	}
+	if (missing.length && (exhaustive || !("_" in callbacks))) {
+		report("MISSING_HANDLER", `No handler for ${missing.map((k) => `'${k}'`).join(", ")}`);
+	}
+}
 
-	/**
-	 * [TYPE ONLY] The generic json format exported by `toJSON` and parsed by `_.parse`.
-	 * 
-	 * @example
-	 * const Status = IronEnum<{ A: 0; B: 1 }>();
-	 *
-	 * function process(s: typeof Status._.typeJson) {
-	 * 		const p = Status._.parse(s);
-	 * }
-	 * 
-	 * process(Status.A(0).toJSON());
-	 * 
-	 */
-	readonly typeJson: IronEnumWireFormat<ALL>;
+/**
+ * Subclass of `Base` that runs development checks on construction and
+ * before every match. Only used for variants built in development mode.
+ */
+function diagnosticVariant(
+	Base: VariantClass,
+	keys: readonly string[] | undefined,
+	units: readonly string[] | undefined,
+	name: string | undefined
+): VariantClass {
+	const report = createReporter(name);
+	return class extends Base {
+		constructor(tag: string, data: unknown, instance: unknown) {
+			super(tag, data, instance);
+			if (data !== undefined && units?.includes(tag)) {
+				report("UNEXPECTED_DATA", `Variant '${tag}' is declared without data but received some`, tag);
+			}
+		}
+		match(callbacks: any) {
+			checkHandlers(callbacks, keys, false, report);
+			return super.match(callbacks);
+		}
+		matchExhaustive(callbacks: any) {
+			checkHandlers(callbacks, keys, true, report);
+			return super.matchExhaustive(callbacks);
+		}
+	};
+}
 
-	/**
-	 * [TYPE ONLY] Union of all variant instances for this enum.
-	 * This is the main type to use in function signatures or return statements.
-	 *
-	 * @example
-	 * const Status = IronEnum<{ A: 0; B: 1 }>();
-	 *
-	 * function process(s: typeof Status._.typeOf) {
-	 * // ...
-	 * }
-	 * 
-	 * process(Status.A(0));
-	 */
-	readonly typeOf: IronEnumVariantUnion<ALL> & AddedProps;
+/* =============================================================================
+ * Guards and Payload Patterns
+ * ============================================================================= */
 
-	/**
-	 * Parse `{ tag, data }` into a variant instance.
-	 * If the keys where provided to the original function call then throws when the tag is not recognized by this factory.
-	 *
-	 * @example
-	 * const data = { tag: "Ready", data: { finishedAt: new Date() } } as const;
-	 * const s = Status._.parse(data);
-	 * if (s.is("Ready")) { ... }
-	 */
-	parse<TAG extends keyof ALL & string>(
-		dataObj: ALL[TAG] extends undefined ? { tag: TAG; data?: ALL[TAG] } : { tag: TAG; data: ALL[TAG] }
-	): IronEnumVariant<TAG, ALL[TAG], ALL>;
+/**
+ * Partial, recursive pattern over a payload.
+ *
+ * Plain objects and arrays are matched key by key (missing keys match
+ * anything). Nested variants are matched on `tag` and a `data` pattern.
+ * Everything else is compared structurally.
+ */
+export type PayloadPattern<T> =
+	T extends { readonly tag: string; readonly data: unknown; readonly instance: unknown }
+	? { readonly tag?: T["tag"]; readonly data?: PayloadPattern<T["data"]> }
+	: T extends Date | Map<unknown, unknown> | Set<unknown> | ((...args: any) => any)
+	? T
+	: T extends readonly unknown[]
+	? { readonly [I in keyof T]?: PayloadPattern<T[I]> }
+	: T extends object
+	? { readonly [K in keyof T]?: PayloadPattern<T[K]> }
+	: T;
 
-	/**
-	 * Alias of `parse`. Convenient for deserializers.
-	 * @see parse
-	 */
-	fromJSON<TAG extends keyof ALL & string>(
-		dataObj: ALL[TAG] extends undefined ? { tag: TAG; data?: ALL[TAG] } : { tag: TAG; data: ALL[TAG] }
-	): IronEnumVariant<TAG, ALL[TAG], ALL>;
+/** Narrow a payload type by a pattern, preferring union members that match. */
+type NarrowByPattern<T, P> = [Extract<T, P>] extends [never] ? T & P : Extract<T, P>;
 
-	/**
-	 * JSON.parse reviver. Pass as the reviver to automatically convert
-	 * nested `{ tag, data }` shapes for this enum.
-	 *
-	 * @example
-	 * const text = '{"tag":"Ready","data":{...}}';
-	 * const s = JSON.parse(text, (k, v) => Status._.reviver(v));
-	 * // s is now a full Status.Ready variant instance
-	 */
-	reviver(obj: unknown): IronEnumVariantUnion<ALL> | unknown;
+/**
+ * A single guarded match arm, usually built with `when`.
+ *
+ * `when` is either a predicate or a `PayloadPattern`; `then` runs with the
+ * payload when the arm matches.
+ */
+export type MatchArm<T, R = unknown> = {
+	readonly when: ((payload: T) => boolean) | PayloadPattern<T>;
+	readonly then: (payload: T) => R;
 };
 
 /**
- * Create a new enum factory.
+ * Build a guarded match arm. Use inside a tag's arm list in `match`,
+ * `matchAsync` or `matchExhaustive`. The payload is narrowed by the pattern
+ * (or type predicate) in the handler.
  *
- * @param args - Optional arguments.
- * @param args.keys - An array of variant keys. Providing this skips the
- * Proxy-based implementation for a faster, pre-bound factory.
+ * Arms for a tag are tried in order. If none match, a trailing plain handler
+ * for that tag runs, otherwise the `_` fallback.
  *
  * @example
- * // Dynamic (Proxy-based, slower)
- * const Status = IronEnum<{
- * 		A: undefined;
- * 		B: undefined;
- * }>();
+ * const msg = response.match({
+ * 		Error: [
+ * 			when({ code: 404 }, () => "Not found"),
+ * 			when((e) => e.code >= 500, (e) => `Server error: ${e.message}`),
+ * 			(e) => e.message,
+ * 		],
+ * 		_: () => "ok",
+ * });
  *
- * // Pre-bound (Fast, no Proxy)
- * const FastStatus = IronEnum<{
- * 		A: undefined;
- * 		B: undefined;
- * }>({ keys: ["A", "B"] });
+ * // Nested variant patterns
+ * result.match({
+ * 		Ok: [when({ tag: "Some" }, (inner) => inner.data)],
+ * 		_: () => null,
+ * });
  */
-export function IronEnum<ALL extends VariantsRecord>(args?: {
-	keys?: (keyof ALL & string)[]
-}): "_" extends keyof ALL ? "ERROR: '_' is reserved!" : IronEnumFactory<ALL> {
-	const keys = args?.keys;
-	let result: IronEnumFactory<ALL> = {} as any;
+export function when<T, S extends T, R>(
+	guard: (payload: T) => payload is S,
+	then: (payload: S) => R
+): MatchArm<T, R>;
+export function when<T, R>(
+	guard: (payload: T) => boolean,
+	then: (payload: T) => R
+): MatchArm<T, R>;
+export function when<T, const P extends PayloadPattern<T>, R>(
+	pattern: P,
+	then: (payload: NarrowByPattern<T, P>) => R
+): MatchArm<T, R>;
+export function when(
+	test: unknown,
+	then: (payload: any) => unknown
+): MatchArm<any, unknown> {
+	return { when: test, then };
+}
+
+/** Check a value against a `PayloadPattern`. */
+function matchesPattern(value: unknown, pattern: unknown): boolean {
+	if (typeof pattern !== "object" || pattern === null) {
+		return Object.is(value, pattern);
+	}
+	const proto = Object.getPrototypeOf(pattern);
+	if (proto !== Object.prototype && proto !== Array.prototype) {
+		return deepEqual(value, pattern);
+	}
+	if (typeof value !== "object" || value === null) return false;
+	for (const k of Object.keys(pattern)) {
+		if (!matchesPattern((value as any)[k], (pattern as any)[k])) return false;
+	}
+	return true;
+}
+
+/** Sentinel returned by `runArms` when no arm accepted the payload. */
+const NO_MATCH: unique symbol = Symbol("NO_MATCH");
+
+/** Run a tag's arm list in order, returning `NO_MATCH` when none apply. */
+function runArms(arms: readonly any[], self: VariantBase): unknown {
+	const payload = self.data;
+	for (const arm of arms) {
+		if (typeof arm === "function") return arm(payload, self);
+		const test = arm.when;
+		if (typeof test === "function" ? test(payload) : matchesPattern(payload, test)) {
+			return arm.then(payload);
+		}
+	}
+	return NO_MATCH;
+}
+
+/** Whether a tag's handler always produces a result without `_`. */
+function isTerminalHandler(handler: unknown): boolean {
+	if (typeof handler === "function") return true;
+	return Array.isArray(handler) && typeof handler[handler.length - 1] === "function";
+}
 
-	const parse = <TAG extends keyof ALL & string>(
-		dataObj: { readonly tag: TAG; readonly data: ALL[TAG] }
-	): IronEnumVariant<TAG, ALL[TAG], ALL> => {
-		const actualKey = dataObj.tag as TAG;
-		if (keys?.length && !keys.includes(actualKey)) {
-			throw new Error(`Unexpected variant '${actualKey}'`);
+/**
+ * Compile a handler object into a dispatch function backed by a lookup table.
+ *
+ * When the factory knows its keys, coverage is validated up front: every tag
+ * needs a terminal handler unless a `_` fallback exists.
+ */
+function compileMatcher(
+	callbacks: any,
+	keys: readonly string[] | undefined
+): (variant: VariantBase) => unknown {
+	const fallback = callbacks._;
+	if (keys?.length && !fallback) {
+		const missing = keys.filter((k) => !isTerminalHandler(callbacks[k]));
+		if (missing.length) {
+			throw new NonExhaustiveMatchError(
+				`Matcher has no handler for ${missing.map((k) => `'${k}'`).join(", ")} and no '_' fallback`,
+				missing
+			);
 		}
-		return enumFactory<ALL, typeof actualKey>(
-			{} as ALL,
-			actualKey,
-			dataObj.data as ALL[typeof actualKey],
-			result
-		)
+	}
+
+	const miss = (variant: VariantBase) => {
+		if (fallback) return fallback(variant);
+		throw new NonExhaustiveMatchError(`No handler for '${variant.tag}' and no '_' fallback`, [variant.tag], variant);
 	};
 
-	const _: EnumProperties<ALL, {}> = {
-		typeTags: undefined as never, // [TYPE ONLY]
-		typeData: undefined as never, // [TYPE ONLY]
-		typeOf: undefined as never,   // [TYPE ONLY]
-		typeJson: undefined as never,   // [TYPE ONLY]
-		parse,
-		fromJSON: parse,
-		reviver(obj: any) {
-			if (obj && typeof obj === "object" && "tag" in (obj as any) && "data" in (obj as any)) {
-				// We use parse, but must cast the input.
-				// The `in` checks are a reasonable safeguard.
-				return parse(obj);
+	const table: Record<string, (variant: VariantBase) => unknown> = Object.create(null);
+	for (const tag of Object.keys(callbacks)) {
+		if (tag === "_") continue;
+		const handler = callbacks[tag];
+		table[tag] = typeof handler === "function"
+			? (variant) => handler(variant.data, variant)
+			: (variant) => {
+				const r = runArms(handler, variant);
+				return r === NO_MATCH ? miss(variant) : r;
+			};
+	}
+
+	return (variant) => (table[variant.tag] ?? miss)(variant);
+}
+
+/* =============================================================================
+ * Structural Equality & Hashing
+ * ============================================================================= */
+
+const FNV_OFFSET = 0x811c9dc5;
+const FNV_PRIME = 0x01000193;
+
+/** Fold a string into an FNV-1a hash. */
+function hashString(h: number, str: string): number {
+	for (let i = 0; i < str.length; i++) {
+		h = Math.imul(h ^ str.charCodeAt(i), FNV_PRIME);
+	}
+	return h;
+}
+
+/**
+ * Deep structural equality used by `equals` and `_.eq`.
+ *
+ * Variants compare by `tag` and payload (the originating factory is ignored),
+ * Dates by timestamp, Maps and Sets by content regardless of insertion order
+ * (members and keys are matched structurally), arrays by position and plain
+ * objects by own enumerable keys. Cyclic payloads are supported.
+ */
+function deepEqual(a: unknown, b: unknown, seen: Map<object, Set<object>> = new Map()): boolean {
+	if (Object.is(a, b)) return true;
+	if (typeof a !== "object" || typeof b !== "object" || a === null || b === null) {
+		return false;
+	}
+	// A pair already being compared further up is assumed equal; this is what
+	// lets cyclic structures terminate.
+	let partners = seen.get(a);
+	if (partners?.has(b)) return true;
+	if (!partners) seen.set(a, (partners = new Set()));
+	partners.add(b);
+	try {
+		return objectsEqual(a, b, seen);
+	} finally {
+		partners.delete(b);
+	}
+}
+
+/** Remove and report the first entry of `pool` equal to `value`. */
+function takeEqual(pool: unknown[], value: unknown, seen: Map<object, Set<object>>): boolean {
+	let i = pool.indexOf(value);
+	if (i < 0) i = pool.findIndex((candidate) => deepEqual(value, candidate, seen));
+	if (i < 0) return false;
+	pool.splice(i, 1);
+	return true;
+}
+
+function objectsEqual(a: object, b: object, seen: Map<object, Set<object>>): boolean {
+	if (a instanceof VariantBase || b instanceof VariantBase) {
+		return (
+			a instanceof VariantBase &&
+			b instanceof VariantBase &&
+			a.tag === b.tag &&
+			deepEqual(a.data, b.data, seen)
+		);
+	}
+	if (Object.getPrototypeOf(a) !== Object.getPrototypeOf(b)) return false;
+	if (a instanceof Date) return a.getTime() === (b as Date).getTime();
+	if (Array.isArray(a)) {
+		const other = b as unknown[];
+		if (a.length !== other.length) return false;
+		for (let i = 0; i < a.length; i++) {
+			if (!deepEqual(a[i], other[i], seen)) return false;
+		}
+		return true;
+	}
+	if (a instanceof Map || a instanceof Set) {
+		const other = b as Map<unknown, unknown> | Set<unknown>;
+		if (a.size !== other.size) return false;
+		// Entries are compared as [key, value] pairs, Set members as themselves.
+		const pool: unknown[] = [...other];
+		for (const item of a) {
+			if (!takeEqual(pool, item, seen)) return false;
+		}
+		return true;
+	}
+	const keysA = Object.keys(a);
+	if (keysA.length !== Object.keys(b).length) return false;
+	for (const k of keysA) {
+		if (
+			!Object.prototype.hasOwnProperty.call(b, k) ||
+			!deepEqual((a as any)[k], (b as any)[k], seen)
+		) {
+			return false;
+		}
+	}
+	return true;
+}
+
+/**
+ * Structural hash consistent with `deepEqual`: equal values always hash the
+ * same. Unordered containers (Maps, Sets, object keys) are combined with an
+ * order-insensitive sum.
+ */
+function hashValue(value: unknown, ancestors: Set<object> = new Set()): number {
+	let h = FNV_OFFSET;
+	if (typeof value !== "object" || value === null) {
+		return hashString(h, typeof value + ":" + String(value)) >>> 0;
+	}
+	// Back-references into the structure being hashed contribute a constant.
+	if (ancestors.has(value)) return hashString(h, "cycle") >>> 0;
+	ancestors.add(value);
+	try {
+		return hashObject(value, ancestors);
+	} finally {
+		ancestors.delete(value);
+	}
+}
+
+function hashObject(value: object, ancestors: Set<object>): number {
+	let h = FNV_OFFSET;
+	if (value instanceof VariantBase) {
+		h = hashString(h, "v:" + value.tag);
+		return Math.imul(h ^ hashValue(value.data, ancestors), FNV_PRIME) >>> 0;
+	}
+	if (value instanceof Date) {
+		return hashString(h, "d:" + value.getTime()) >>> 0;
+	}
+	if (Array.isArray(value)) {
+		h = hashString(h, "a:");
+		for (const item of value) h = Math.imul(h ^ hashValue(item, ancestors), FNV_PRIME);
+		return h >>> 0;
+	}
+	let sum = 0;
+	if (value instanceof Map) {
+		h = hashString(h, "m:");
+		for (const [k, v] of value) {
+			sum = (sum + Math.imul(hashValue(k, ancestors) ^ hashValue(v, ancestors), FNV_PRIME)) | 0;
+		}
+	} else if (value instanceof Set) {
+		h = hashString(h, "s:");
+		for (const v of value) sum = (sum + hashValue(v, ancestors)) | 0;
+	} else {
+		h = hashString(h, "o:");
+		for (const k of Object.keys(value)) {
+			sum = (sum + Math.imul(hashString(FNV_OFFSET, k) ^ hashValue((value as any)[k], ancestors), FNV_PRIME)) | 0;
+		}
+	}
+	return Math.imul(h ^ sum, FNV_PRIME) >>> 0;
+}
+
+/* =============================================================================
+ * Immutable Updates
+ * ============================================================================= */
+
+/** Object literal or `Object.create(null)` value, as opposed to class instances. */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+	if (typeof value !== "object" || value === null) return false;
+	const proto = Object.getPrototypeOf(value);
+	return proto === Object.prototype || proto === null;
+}
+
+/** Merge `patch` into `base`, recursing only where both sides are plain objects. */
+function deepMerge(base: Record<string, unknown>, patch: object): Record<string, unknown> {
+	const out: Record<string, unknown> = { ...base };
+	for (const [k, v] of Object.entries(patch)) {
+		out[k] = isPlainObject(v) && isPlainObject(out[k]) ? deepMerge(out[k] as Record<string, unknown>, v) : v;
+	}
+	return out;
+}
+
+/**
+ * Deep-frozen copy of plain objects and arrays, leaving the caller's value
+ * untouched. Already-frozen values are shared, variants are left to their own
+ * factory, and Dates / Maps / Sets cannot be meaningfully frozen.
+ */
+function frozenCopy<T>(value: T, copies = new Map<object, object>()): T {
+	if (!(Array.isArray(value) || isPlainObject(value)) || Object.isFrozen(value)) return value;
+	const seen = copies.get(value);
+	if (seen) return seen as T;
+	const copy: any = Array.isArray(value) ? [] : Object.create(Object.getPrototypeOf(value));
+	copies.set(value, copy);
+	for (const [k, v] of Object.entries(value)) copy[k] = frozenCopy(v, copies);
+	return Object.freeze(copy);
+}
+
+/** Same-tag variant with a new payload, built through the originating factory. */
+function rebuildVariant(variant: VariantBase, data: unknown): unknown {
+	return (variant.instance as any)[variant.tag](data);
+}
+
+/* =============================================================================
+ * Ordering
+ * ============================================================================= */
+
+/** Breaks ties between two variants of the same tag. Returns <0, 0 or >0. */
+type PayloadComparator<ALL extends VariantsRecord> = (a: ALL[keyof ALL], b: ALL[keyof ALL]) => number;
+
+/** Order of payload kinds, so values of different kinds still sort consistently. */
+const PAYLOAD_KINDS = ["undefined", "null", "boolean", "number", "bigint", "string", "date", "array", "object", "variant"];
+
+function payloadKind(value: unknown): string {
+	if (value === null) return "null";
+	if (value instanceof VariantBase) return "variant";
+	if (value instanceof Date) return "date";
+	if (Array.isArray(value)) return "array";
+	if (isPlainObject(value)) return "object";
+	const type = typeof value;
+	if (type === "object" || type === "function" || type === "symbol") {
+		const label = type === "object" ? (Object.getPrototypeOf(value)?.constructor?.name ?? "object") : type;
+		throw new IronEnumDefinitionError("INVALID_PAYLOAD", `Cannot order ${label} payloads by default; pass a comparator`);
+	}
+	return type;
+}
+
+/**
+ * Default tie-breaker, consistent with `equals`: numbers, strings, bigints,
+ * booleans and Dates compare naturally, arrays lexicographically, plain
+ * objects by their sorted keys and then the values under them, and nested
+ * variants recurse through `cmp`. Values of different kinds order by kind.
+ * Other payloads (Maps, Sets, class instances, ...) need a comparator.
+ */
+function comparePayload(a: unknown, b: unknown): number {
+	const ka = payloadKind(a);
+	const kb = payloadKind(b);
+	if (ka !== kb) return Math.sign(PAYLOAD_KINDS.indexOf(ka) - PAYLOAD_KINDS.indexOf(kb));
+	switch (ka) {
+		case "variant":
+			return (a as VariantBase).cmp(b as AnyVariant);
+		case "date":
+			return comparePayload((a as Date).getTime(), (b as Date).getTime());
+		case "array":
+			return compareLists(a as unknown[], b as unknown[], comparePayload);
+		case "object": {
+			const keysA = Object.keys(a as object).sort();
+			const keysB = Object.keys(b as object).sort();
+			return (
+				compareLists(keysA, keysB, comparePayload) ||
+				compareLists(keysA, keysA, (k) => comparePayload((a as any)[k], (b as any)[k]))
+			);
+		}
+		case "number":
+			// NaN sorts after every other number and ties with itself, as `equals` treats it.
+			if (Number.isNaN(a) || Number.isNaN(b)) return Number.isNaN(a) ? (Number.isNaN(b) ? 0 : 1) : -1;
+	}
+	return (a as any) < (b as any) ? -1 : (a as any) > (b as any) ? 1 : 0;
+}
+
+/** Lexicographic order of two lists under `cmp`; a strict prefix sorts first. */
+function compareLists<T>(a: readonly T[], b: readonly T[], cmp: (x: T, y: T) => number): number {
+	for (let i = 0; i < Math.min(a.length, b.length); i++) {
+		const c = cmp(a[i], b[i]);
+		if (c !== 0) return c;
+	}
+	return Math.sign(a.length - b.length);
+}
+
+/**
+ * Order two variants by declaration order (`ordinal`), then by payload.
+ * Throws when either tag is unknown, since it has no position to sort by.
+ */
+function compareVariants(
+	ordinal: (tag: string) => number,
+	a: AnyVariant,
+	b: AnyVariant,
+	by: (a: any, b: any) => number = comparePayload
+): number {
+	const ia = ordinal(a.tag);
+	const ib = ordinal(b.tag);
+	if (ia < 0 || ib < 0) {
+		throw new IronEnumDefinitionError(
+			"KEYS_REQUIRED",
+			`Cannot order variant '${ia < 0 ? a.tag : b.tag}': the factory needs 'keys' to compare variants`
+		);
+	}
+	if (ia !== ib) return ia < ib ? -1 : 1;
+	return Math.sign(by(a.data, b.data));
+}
+
+/* =============================================================================
+ * Factory Implementation
+ * ============================================================================= */
+
+/**
+ * Shared prototype for every variant instance.
+ *
+ * An instance only owns `tag`, `data` and `instance`; every method lives on
+ * this class (or a per-factory subclass) so constructing a variant allocates
+ * a single object and no closures.
+ */
+class VariantBase {
+	readonly tag: string;
+	readonly data: any;
+	readonly instance: any;
+
+	constructor(tag: string, data: unknown, instance: unknown) {
+		this.tag = tag;
+		this.data = data;
+		this.instance = instance;
+	}
+
+	toJSON() {
+		const codec = factoryCodecs.get(this.instance?._);
+		return codec ? codec.encode(this.tag, this.data) : { tag: this.tag, data: this.data };
+	}
+
+	is(key: string): boolean {
+		return key === this.tag;
+	}
+
+	if(
+		key: string,
+		success?: (payload: unknown, self: any) => unknown,
+		failure?: (self: any) => unknown
+	) {
+		if (key === this.tag) {
+			if (success) {
+				const r = success(this.data, this);
+				return r === undefined ? true : r;
 			}
-			return obj;
-		},
-	};
+			return true;
+		}
+		if (failure) {
+			const r = failure(this);
+			return r === undefined ? false : r;
+		}
+		return false;
+	}
 
-	// Keyed fast-path (no Proxy)
-	if (keys?.length) {
-		result = { _ } as IronEnumFactory<ALL>;
-		for (const key of keys) {
-			(result as any)[key] = ((...args: [any?]) =>
-				enumFactory<ALL, typeof key>({} as ALL, key, args[0], result)) as any;
+	ifNot(
+		key: string,
+		success?: (self: any) => unknown,
+		failure?: (payload: unknown, self: any) => unknown
+	) {
+		if (key !== this.tag) {
+			if (success) {
+				const r = success(this);
+				return r === undefined ? true : r;
+			}
+			return true;
 		}
-		return result as any;
+		if (failure) {
+			const r = failure(this.data, this);
+			return r === undefined ? false : r;
+		}
+		return false;
 	}
 
-	// Dynamic Proxy builder with built-in guard
-	const BUILTINS = new Set(["toString", "valueOf", "inspect", "constructor"]);
-	result = new Proxy(
-		{},
-		{
-			get: (_tgt, prop: string | symbol) => {
-				if (prop === "_") return _;
-				if (typeof prop !== "string") return undefined;
-				if (BUILTINS.has(prop)) {
-					const fn = (Object.prototype as any)[prop];
-					return typeof fn === "function" ? fn.bind(result) : undefined;
-				}
-				return (...args: [any?]) => {
-					const data = args[0] as ALL[typeof prop];
-					return enumFactory<ALL, typeof prop>({} as ALL, prop, data, result);
-				};
-			},
+	match(callbacks: any) {
+		const specific = callbacks[this.tag];
+		if (typeof specific === "function") return specific(this.data, this);
+		if (specific) {
+			const r = runArms(specific, this);
+			if (r !== NO_MATCH) return r;
 		}
-	) as any;
+		const fallback = callbacks._;
+		if (!fallback) {
+			throw new NonExhaustiveMatchError(`No handler for '${this.tag}' and no '_' fallback`, [this.tag], this);
+		}
+		return fallback(this);
+	}
 
-	return result as any;
+	async matchAsync(callbacks: any) {
+		return this.match(callbacks);
+	}
+
+	matchExhaustive(callbacks: any) {
+		const handler = callbacks[this.tag];
+		if (typeof handler === "function") return handler(this.data, this);
+		if (!Array.isArray(handler)) {
+			throw new NonExhaustiveMatchError(`No handler for '${this.tag}' in matchExhaustive`, [this.tag], this);
+		}
+		const r = runArms(handler, this);
+		if (r === NO_MATCH) {
+			throw new NonExhaustiveMatchError(`No arm matched '${this.tag}'`, [this.tag], this);
+		}
+		return r;
+	}
+
+	equals(other: unknown): boolean {
+		return deepEqual(this, other);
+	}
+
+	hash(): number {
+		return hashValue(this);
+	}
+
+	cmp(other: AnyVariant, by?: (a: any, b: any) => number): number {
+		const keys = factoryKeys.get(this.instance?._);
+		return compareVariants((tag) => keys?.indexOf(tag) ?? -1, this, other, by);
+	}
+
+	lt(other: AnyVariant, by?: (a: any, b: any) => number): boolean {
+		return this.cmp(other, by) < 0;
+	}
+
+	gt(other: AnyVariant, by?: (a: any, b: any) => number): boolean {
+		return this.cmp(other, by) > 0;
+	}
+
+	with(patch: object, options?: { deep?: boolean }): unknown {
+		if (!isPlainObject(this.data)) {
+			throw new IronEnumDefinitionError(
+				"INVALID_PAYLOAD",
+				`with() needs an object payload, '${this.tag}' holds ${typeof this.data}`
+			);
+		}
+		return rebuildVariant(this, options?.deep ? deepMerge(this.data, patch) : { ...this.data, ...patch });
+	}
+
+	update(fn: (data: any) => unknown): unknown {
+		return rebuildVariant(this, fn(this.data));
+	}
+
+	mapData(tag: string, fn: (data: any) => unknown): unknown {
+		return this.tag === tag ? this.update(fn) : this;
+	}
+}
+
+/** Constructor shape shared by `VariantBase` and its subclasses. */
+type VariantClass = new (tag: string, data: unknown, instance: unknown) => VariantBase;
+
+/**
+ * Create a concrete variant instance from the given variant class.
+ *
+ * Each factory owns a subclass of `VariantBase`, so instances of one enum
+ * share a single prototype and a stable object shape.
+ */
+function enumFactory<
+	ALL extends VariantsRecord,
+	TAG extends keyof ALL & string
+>(
+	Variant: VariantClass,
+	tag: TAG,
+	data: ALL[TAG],
+	instance: IronEnumFactory<ALL>
+): IronEnumVariant<TAG, ALL[TAG], ALL> {
+	if (tag === "_") throw new IronEnumDefinitionError("RESERVED_KEY", "'_' is reserved as a fallback key.");
+	return new Variant(tag, data, instance) as unknown as IronEnumVariant<TAG, ALL[TAG], ALL>;
+}
+
+/** Encoder / decoder pair for a factory's wire format. */
+type WireCodec = {
+	/** Enum name written to the wire, if the factory is named. */
+	readonly name: string | undefined;
+	/** Key holding the enum name, or `undefined` when the format cannot carry it. */
+	readonly enumKey: string | undefined;
+	encode(tag: string, data: unknown): unknown;
+	/**
+	 * Read `{ tag, data }` from a wire value, or `undefined` when the value does
+	 * not have this format's shape. `strict` is used by revivers, which see every
+	 * value in a document and must not claim ones that merely look similar.
+	 */
+	decode(json: unknown, strict: boolean): { tag: string; data: unknown } | undefined;
+};
+
+/** Codec of each factory, keyed by its `_` object. Read by `toJSON` and registries. */
+const factoryCodecs = new WeakMap<object, WireCodec>();
+
+/** `keys` of each factory created with them, keyed by its `_` object. */
+const factoryKeys = new WeakMap<object, readonly string[]>();
+
+/**
+ * Lineage of each factory, keyed by its `_` object: the `_` of the factory it
+ * was first defined as. Shared by its `impl` and `extend` copies, so recursive
+ * walks treat their variants as the same enum.
+ */
+const factoryLineage = new WeakMap<object, object>();
+
+/** Lineage of the factory that built a variant, if it has one. */
+function lineageOf(instance: unknown): object | undefined {
+	return factoryLineage.get((instance as { _?: object } | undefined)?._ as object);
+}
+
+/** Plain JSON object that is not already a revived variant. */
+function isWireRecord(json: unknown): json is Record<string, unknown> {
+	return typeof json === "object" && json !== null && !Array.isArray(json) && !(json instanceof VariantBase);
+}
+
+/** Build the codec for a factory's `wire` option. */
+function createWireCodec(
+	wire: WireOptions | undefined,
+	keys: readonly string[] | undefined,
+	resolve: ((json: unknown) => string | undefined) | undefined,
+	name: string | undefined,
+	units: readonly string[] | undefined
+): WireCodec {
+	const n = (wire as { enumKey?: string } | undefined)?.enumKey ?? "enum";
+	const named = name === undefined ? {} : { [n]: name };
+
+	// A value stamped with another enum's name never belongs to this factory.
+	const foreign = (json: Record<string, unknown>) =>
+		name !== undefined && n in json && json[n] !== name;
+
+	switch (wire?.tagging ?? "adjacent") {
+		case "internal": {
+			const t = (wire as { tag?: string }).tag ?? "tag";
+			const reserved = name === undefined ? [t] : [t, n];
+			return {
+				name,
+				enumKey: n,
+				encode(tag, data) {
+					if (data === undefined) return { ...named, [t]: tag };
+					// As in serde, only object payloads can be flattened next to the tag.
+					if (!isPlainObject(data)) {
+						const kind = Array.isArray(data) ? "an array" : data === null ? "null" : typeof data;
+						throw new IronEnumDefinitionError(
+							"INVALID_PAYLOAD",
+							`Internally tagged variant '${tag}' needs an object payload, got ${kind}`
+						);
+					}
+					const clash = reserved.find((key) => Object.prototype.hasOwnProperty.call(data, key));
+					if (clash !== undefined) {
+						throw new IronEnumDefinitionError(
+							"INVALID_PAYLOAD",
+							`Payload of internally tagged variant '${tag}' has a field '${clash}', which the wire format reserves`
+						);
+					}
+					return { ...named, [t]: tag, ...data };
+				},
+				decode(json, strict) {
+					if (!isWireRecord(json) || typeof json[t] !== "string" || foreign(json)) return undefined;
+					const { [t]: rawTag, ...rest } = json;
+					const tag = rawTag as string;
+					// Revivers only claim tags they know: from `keys`, or from this enum's name stamp.
+					if (strict && !(keys?.length ? keys.includes(tag) : name !== undefined && json[n] === name)) {
+						return undefined;
+					}
+					if (name !== undefined) delete rest[n];
+					// `{}` and "no payload" look the same on the wire; `units` tells them apart.
+					return { tag, data: Object.keys(rest).length || !units?.includes(tag) ? rest : undefined };
+				},
+			};
+		}
+		case "external":
+			return {
+				name,
+				enumKey: undefined,
+				encode: (tag, data) => (data === undefined ? tag : { [tag]: data }),
+				decode(json, strict) {
+					// Revivers see every string in a document, so only `parse` reads bare unit tags.
+					if (typeof json === "string") return strict ? undefined : { tag: json, data: undefined };
+					if (!isWireRecord(json)) return undefined;
+					const fields = Object.keys(json);
+					// Revivers need `keys`: any single-field object looks like a variant.
+					if (fields.length !== 1 || (strict && !keys?.includes(fields[0]))) return undefined;
+					return { tag: fields[0], data: json[fields[0]] };
+				},
+			};
+		case "untagged":
+			return {
+				name,
+				enumKey: undefined,
+				encode: (_tag, data) => data,
+				decode(json, strict) {
+					if (!resolve) {
+						if (strict) return undefined;
+						throw new IronEnumDefinitionError("RESOLVE_REQUIRED", "The 'untagged' wire format needs a 'resolve' option to parse");
+					}
+					const tag = resolve(json);
+					return tag === undefined ? undefined : { tag, data: json };
+				},
+			};
+		default: {
+			const t = (wire as { tag?: string } | undefined)?.tag ?? "tag";
+			const c = (wire as { content?: string } | undefined)?.content ?? "data";
+			return {
+				name,
+				enumKey: n,
+				encode: (tag, data) => ({ ...named, [t]: tag, [c]: data }),
+				decode(json, strict) {
+					if (!isWireRecord(json) || typeof json[t] !== "string" || foreign(json)) return undefined;
+					const tag = json[t] as string;
+					// Revivers claim only known tags when `keys` exist, else only values with a content field.
+					if (strict && (keys?.length ? !keys.includes(tag) : !(c in json))) return undefined;
+					return { tag, data: json[c] };
+				},
+			};
+		}
+	}
 }
 
 /* =============================================================================
- * Result Type (Rust-style error handling)
+ * Main Enum Builder
  * ============================================================================= */
 
 /**
- * Methods common to success-carrying types that allow extracting values,
- * defaults, or lazily computed fallbacks.
+ * Runtime factory for an enum, where each key is a constructor for its variant.
+ *
+ * @example
+ * const Status = IronEnum<{
+ * Loading: undefined;
+ * Ready: { count: number };
+ * }>();
+ *
+ * const s1 = Status.Loading(); // { tag: "Loading", data: undefined }
+ * const s2 = Status.Ready({ count: 1 }); // { tag: "Ready", data: { count: 1 } }
+ *
+ * @template ALL The full `VariantsRecord` for the enum
+ * @template W   The wire format chosen for the enum
+ * @template M   Methods attached to every variant via `_.impl`
+ */
+export type IronEnumFactory<
+	ALL extends VariantsRecord,
+	W extends WireOptions = DefaultWire,
+	M = {}
+> = {
+	[K in keyof ALL & string]: VariantConstructor<ALL[K], K, ALL, W, M>;
+} & {
+	/**
+	 * Utilities and [TYPE ONLY] metadata exposed via the `_` property.
+	 *
+	 * The fields marked [TYPE ONLY] exist only for type access in code and do not
+	 * exist at runtime. They intentionally evaluate to `never` at runtime.
+	 */
+	_: EnumProperties<ALL, M, W>;
+};
+
+/**
+ * Utility metadata exposed on the factory via `_`.
+ *
+ * Includes parsers and [TYPE ONLY] accessors for tags, payload union, and
+ * the union instance type.
+ */
+export type EnumProperties<
+	ALL extends VariantsRecord,
+	AddedProps,
+	W extends WireOptions = DefaultWire
+> = {
+	/**
+	 * [TYPE ONLY] Union of tag names.
+	 *
+	 * @example
+	 * const Status = IronEnum<{ A: 0; B: 1 }>();
+	 * type StatusTags = typeof Status._.typeTags; // "A" | "B"
+	 */
+	readonly typeTags: keyof ALL & string;
+
+	/**
+	 * [TYPE ONLY] Union of payload values.
+	 *
+	 * @example
+	 * const Status = IronEnum<{ A: 0; B: 1 }>();
+	 * type StatusData = typeof Status._.typeData; // 0 | 1
+	 */
+	readonly typeData: ALL[keyof ALL];
+
+	/**
+	 * [TYPE ONLY] The generic json format exported by `toJSON` and parsed by `_.parse`.
+	 * 
+	 * @example
+	 * const Status = IronEnum<{ A: 0; B: 1 }>();
+	 *
+	 * function process(s: typeof Status._.typeJson) {
+	 * 		const p = Status._.parse(s);
+	 * }
+	 * 
+	 * process(Status.A(0).toJSON());
+	 * 
+	 */
+	readonly typeJson: IronEnumWireFormat<ALL, W>;
+
+	/**
+	 * [TYPE ONLY] Union of all variant instances for this enum.
+	 * This is the main type to use in function signatures or return statements.
+	 *
+	 * @example
+	 * const Status = IronEnum<{ A: 0; B: 1 }>();
+	 *
+	 * function process(s: typeof Status._.typeOf) {
+	 * // ...
+	 * }
+	 * 
+	 * process(Status.A(0));
+	 */
+	readonly typeOf: IronEnumVariantUnion<ALL, W> & AddedProps;
+
+	/**
+	 * Name given at creation, used to tag the wire format and look the enum
+	 * up in an `EnumRegistry`. `undefined` for anonymous enums.
+	 */
+	readonly name: string | undefined;
+
+	/**
+	 * Tags in declaration order, as passed in `keys`. Throws an
+	 * `IronEnumDefinitionError` (`KEYS_REQUIRED`) when the factory was created
+	 * without `keys`.
+	 *
+	 * @example
+	 * const Status = IronEnum<{ A: 0; B: 1 }>({ keys: ["A", "B"] });
+	 * Status._.keys; // ["A", "B"]
+	 */
+	readonly keys: readonly (keyof ALL & string)[];
+
+	/**
+	 * Position of `tag` in `keys`, or `-1` when it is not a known variant.
+	 * Requires `keys`.
+	 *
+	 * @example
+	 * Status._.ordinal("B"); // 1
+	 */
+	ordinal(tag: string): number;
+
+	/**
+	 * Whether `tag` is one of this enum's variants. Requires `keys`.
+	 *
+	 * @example
+	 * if (Status._.has(input)) Status[input];
+	 */
+	has(tag: string): tag is keyof ALL & string;
+
+	/**
+	 * Metadata declared for `tag` through the `meta` option, if any.
+	 *
+	 * @example
+	 * const Status = IronEnum<{ A: 0; B: 1 }>({
+	 * 		keys: ["A", "B"],
+	 * 		meta: { A: { label: "Alpha" } },
+	 * });
+	 * Status._.meta("A")?.label; // "Alpha"
+	 */
+	meta(tag: keyof ALL & string): VariantMeta | undefined;
+
+	/**
+	 * Parse the wire format (`{ tag, data }` by default) into a variant instance.
+	 * If the keys where provided to the original function call then throws when the tag is not recognized by this factory.
+	 *
+	 * @example
+	 * const data = { tag: "Ready", data: { finishedAt: new Date() } } as const;
+	 * const s = Status._.parse(data);
+	 * if (s.is("Ready")) { ... }
+	 */
+	parse<J extends WireInputOf<ALL, W>>(
+		dataObj: J
+	): VariantOfTag<ALL, W, WireTagOf<J, ALL, W>> & AddedProps;
+
+	/**
+	 * Alias of `parse`. Convenient for deserializers.
+	 * @see parse
+	 */
+	fromJSON<J extends WireInputOf<ALL, W>>(
+		dataObj: J
+	): VariantOfTag<ALL, W, WireTagOf<J, ALL, W>> & AddedProps;
+
+	/**
+	 * JSON.parse reviver. Pass as the reviver to automatically convert
+	 * nested wire shapes (`{ tag, data }` by default) for this enum.
+	 *
+	 * @example
+	 * const text = '{"tag":"Ready","data":{...}}';
+	 * const s = JSON.parse(text, (k, v) => Status._.reviver(v));
+	 * // s is now a full Status.Ready variant instance
+	 */
+	reviver(obj: unknown): (IronEnumVariantUnion<ALL, W> & AddedProps) | unknown;
+
+	/**
+	 * Structural equality comparator, equivalent to `a.equals(b)`.
+	 * Handy for dedupe helpers and cache lookups.
+	 *
+	 * @example
+	 * const unique = list.filter((v, i) => list.findIndex((o) => Status._.eq(o, v)) === i);
+	 */
+	eq(a: AnyVariantOf<ALL>, b: AnyVariantOf<ALL>): boolean;
+
+	/**
+	 * Comparator ordering variants by their position in `keys`. Variants with
+	 * the same tag are ordered by `by`, or by default by their payload when it
+	 * is a number, string, bigint, boolean, Date or variant. Requires `keys`.
+	 *
+	 * @example
+	 * tasks.sort((a, b) => Priority._.compare(a.priority, b.priority));
+	 */
+	compare(a: AnyVariantOf<ALL>, b: AnyVariantOf<ALL>, by?: PayloadComparator<ALL>): number;
+
+	/**
+	 * Return a sorted copy of `list`, using `_.compare`.
+	 *
+	 * @example
+	 * Priority._.sortBy([Priority.High(), Priority.Low()]); // [Low, High]
+	 */
+	sortBy<V extends AnyVariantOf<ALL>>(list: readonly V[], by?: PayloadComparator<ALL>): V[];
+
+	/**
+	 * Build a reusable matcher once and apply it to many variants.
+	 *
+	 * Accepts the same handlers as `match`. The handlers are compiled into a
+	 * lookup table, and when the factory was created with `keys` a matcher
+	 * that misses a tag without a `_` fallback throws immediately.
+	 *
+	 * @example
+	 * const toLabel = Status._.matcher({
+	 * 		Loading: () => "Loading",
+	 * 		_: (self) => self.tag,
+	 * });
+	 *
+	 * const labels = statuses.map(toLabel);
+	 */
+	matcher<A extends MatchFns<ALL>>(callbacks: A): (variant: AnyVariantOf<ALL>) => MatchResult<A>;
+
+	/**
+	 * Collapse a recursive tree of variants bottom-up (a catamorphism).
+	 * Nested variants of this enum (inside arrays and plain objects) are
+	 * folded first, and each handler receives its payload with those nested
+	 * variants replaced by their results. Pass the result type explicitly,
+	 * since TypeScript cannot infer it from handlers that also consume it.
+	 *
+	 * @example
+	 * const value = Expr._.fold<number>(tree, {
+	 * 		Num: (n) => n,
+	 * 		Add: ({ args: [a, b] }) => a + b,
+	 * });
+	 */
+	fold<R>(variant: AnyVariantOf<ALL>, handlers: FoldHandlers<ALL, R, W>): R;
+
+	/**
+	 * Rewrite a recursive tree of variants bottom-up. `fn` sees every node
+	 * after its children were rewritten and returns its replacement. Nodes
+	 * whose children are unchanged are reused.
+	 *
+	 * @example
+	 * // Constant folding
+	 * const simplified = Expr._.transform(tree, (node) =>
+	 * 		node.tag === "Neg" && node.data.of.tag === "Num"
+	 * 			? Expr.Num(-node.data.of.data)
+	 * 			: node
+	 * );
+	 */
+	transform(
+		variant: AnyVariantOf<ALL>,
+		fn: (node: IronEnumVariantUnion<ALL, W> & AddedProps) => IronEnumVariantUnion<ALL, W>
+	): IronEnumVariantUnion<ALL, W> & AddedProps;
+
+	/**
+	 * Build a reducer that folds events of this enum into a state, with one
+	 * handler per tag. Every tag must be handled, so adding a variant breaks
+	 * the build of each reducer until it is handled.
+	 *
+	 * @example
+	 * const balance = AccountEvent._.reducer(0, {
+	 * 		Deposited: (total, { amount }) => total + amount,
+	 * 		Withdrawn: (total, { amount }) => total - amount,
+	 * });
+	 * balance.replay(events); // current balance
+	 * events.reduce(balance, 0); // same thing
+	 */
+	reducer<S>(initial: S, handlers: ReducerFns<ALL, S>): EnumReducer<S, ALL>;
+
+	/**
+	 * Attach methods to every variant, like a Rust `impl` block.
+	 *
+	 * Returns a new factory whose variants (including parsed and revived
+	 * ones) share the methods through their prototype. Inside a method `this`
+	 * is the variant union. Calls can be chained to add more methods.
+	 *
+	 * @example
+	 * const Shape = IronEnum<{
+	 * 		Circle: { r: number };
+	 * 		Rect: { w: number; h: number };
+	 * }>()._.impl({
+	 * 		area() {
+	 * 			return this.match({
+	 * 				Circle: ({ r }) => Math.PI * r * r,
+	 * 				Rect: ({ w, h }) => w * h,
+	 * 			});
+	 * 		},
+	 * });
+	 *
+	 * Shape.Rect({ w: 2, h: 3 }).area(); // 6
+	 */
+	impl<M extends Record<string, unknown>>(
+		methods: M & ThisType<IronEnumVariantUnion<ALL, W> & AddedProps & M>
+	): IronEnumFactory<ALL, W, AddedProps & M>;
+
+	/**
+	 * Derive a new enum with extra variants. When this factory was created
+	 * with `keys`, the new keys are required (and appended to the existing
+	 * ones). The wire format is inherited; `name` and `impl` methods are not.
+	 *
+	 * @example
+	 * const ClientError = ApiError._.extend<{ Offline: undefined; Timeout: { ms: number } }>(
+	 * 		["Offline", "Timeout"]
+	 * );
+	 */
+	extend<MORE extends VariantsRecord>(
+		keys?: (keyof MORE & string)[]
+	): IronEnumFactory<ExtendVariants<ALL, MORE>, W>;
+
+	/**
+	 * Derive a new enum with only the listed variants.
+	 *
+	 * @example
+	 * const PublicStatus = Status._.pick(["Active", "Suspended"]);
+	 */
+	pick<K extends keyof ALL & string>(keys: readonly K[]): IronEnumFactory<Pick<ALL, K>, W>;
+
+	/**
+	 * Derive a new enum without the listed variants.
+	 * Requires this factory to have been created with `keys`.
+	 *
+	 * @example
+	 * const PublicStatus = Status._.omit(["Internal"]);
+	 */
+	omit<K extends keyof ALL & string>(keys: readonly K[]): IronEnumFactory<Omit<ALL, K>, W>;
+
+	/**
+	 * Convert a variant of a smaller enum (one this enum was derived from with
+	 * `extend`, or one derived from it with `pick` / `omit`) into this enum.
+	 *
+	 * @example
+	 * const e = ClientError._.widen(ApiError.NotFound()); // ClientError.NotFound
+	 */
+	widen(variant: AnyVariantOf<ALL>): IronEnumVariantUnion<ALL, W> & AddedProps;
+
+	/**
+	 * Convert a variant of a larger enum into this enum. Returns `None` when
+	 * the tag does not exist here. Requires this factory to have `keys`.
+	 *
+	 * @example
+	 * PublicStatus._.narrow(Status.Active()); // Some(PublicStatus.Active())
+	 * PublicStatus._.narrow(Status.Internal()); // None()
+	 */
+	narrow(variant: {
+		readonly tag: string;
+		readonly data: unknown;
+	}): OptionVariant<{ Some: IronEnumVariantUnion<ALL, W> & AddedProps; None: undefined }>;
+};
+
+/** Variants of `ALL` plus (or overridden by) the variants of `MORE`. */
+type ExtendVariants<ALL extends VariantsRecord, MORE extends VariantsRecord> = {
+	[K in keyof ALL | keyof MORE]: K extends keyof MORE ? MORE[K] : K extends keyof ALL ? ALL[K] : never;
+};
+
+/**
+ * Create a new enum factory.
+ *
+ * @param args - Optional arguments.
+ * @param args.keys - An array of variant keys. Providing this skips the
+ * Proxy-based implementation for a faster, pre-bound factory.
+ * @param args.name - Enum name. It is written to the wire (see `WireOptions`)
+ * so an `EnumRegistry` can revive values of many enums at once.
+ * @param args.wire - Wire format used by `toJSON`, `_.parse` and `_.reviver`.
+ * Pass the same object as the `W` type argument so `typeJson` follows it.
+ * @param args.resolve - For the `untagged` wire format: pick the tag of a
+ * bare payload, or return `undefined` when it does not belong to this enum.
+ *
+ * @example
+ * // Dynamic (Proxy-based, slower)
+ * const Status = IronEnum<{
+ * 		A: undefined;
+ * 		B: undefined;
+ * }>();
+ *
+ * // Pre-bound (Fast, no Proxy)
+ * const FastStatus = IronEnum<{
+ * 		A: undefined;
+ * 		B: undefined;
+ * }>({ keys: ["A", "B"] });
+ *
+ * // Rust/serde style internally tagged JSON: {"type":"A", ...fields}
+ * const Internal = IronEnum<
+ * 		{ A: { x: number }; B: undefined },
+ * 		{ tagging: "internal"; tag: "type" }
+ * >({ wire: { tagging: "internal", tag: "type" } });
+ */
+export function IronEnum<
+	ALL extends VariantsRecord,
+	W extends WireOptions = DefaultWire
+>(args?: IronEnumArgs<ALL, W>): "_" extends keyof ALL ? "ERROR: '_' is reserved!" : IronEnumFactory<ALL, W> {
+	return buildEnum<ALL>(args, []) as any;
+}
+
+/** Options accepted by `IronEnum`. */
+type IronEnumArgs<ALL extends VariantsRecord, W extends WireOptions> = {
+	keys?: (keyof ALL & string)[];
+	name?: string;
+	wire?: W;
+	resolve?: (json: unknown) => (keyof ALL & string) | undefined;
+	meta?: { [K in keyof ALL & string]?: VariantMeta };
+	/** Deep-freeze every payload so accidental mutation throws (in strict mode). */
+	freeze?: boolean;
+	/** Run development diagnostics for this factory. Defaults to the global `configure({ dev })`, read as each variant is built. */
+	dev?: boolean;
+	/**
+	 * Variants declared with an `undefined` payload, checked in development
+	 * mode. With internal tagging, these decode without a payload while other
+	 * tags decode to `{}`.
+	 */
+	units?: UnitTags<ALL>[];
+};
+
+/** Tags whose payload is `undefined`. */
+type UnitTags<ALL extends VariantsRecord> = {
+	[K in keyof ALL & string]: ALL[K] extends undefined ? K : never;
+}[keyof ALL & string];
+
+/**
+ * Descriptive data attached to a variant through the `meta` option of
+ * `IronEnum` and read back with `_.meta(tag)`.
+ */
+export type VariantMeta = {
+	label?: string;
+	description?: string;
+	/** `true`, or a message explaining what to use instead. */
+	deprecated?: boolean | string;
+	[key: string]: unknown;
+};
+
+/** Subclass of `Base` whose instances and payloads are deep-frozen on construction. Payloads are copied first. */
+function frozenVariant(Base: VariantClass): VariantClass {
+	return class extends Base {
+		constructor(tag: string, data: unknown, instance: unknown) {
+			super(tag, frozenCopy(data), instance);
+			Object.freeze(this);
+		}
+	};
+}
+
+/**
+ * Create a subclass of `Base` carrying the given `impl` method blocks.
+ * Names that would shadow variant fields or existing methods are refused.
+ */
+function extendVariant<C extends VariantClass>(Base: C, methods: readonly object[]): C {
+	const Variant = class extends (Base as VariantClass) {};
+	const proto = Variant.prototype;
+	for (const block of methods) {
+		for (const key of Object.keys(block)) {
+			if (key === "tag" || key === "data" || key === "instance" || key in proto) {
+				throw new IronEnumDefinitionError("RESERVED_KEY", `'${key}' is reserved and cannot be used as an impl method.`);
+			}
+		}
+		Object.defineProperties(proto, Object.getOwnPropertyDescriptors(block));
+	}
+	return Variant as C;
+}
+
+/** Shared implementation of `IronEnum` and `_.impl`. */
+function buildEnum<ALL extends VariantsRecord>(
+	args: IronEnumArgs<ALL, any> | undefined,
+	methods: readonly object[],
+	lineage?: object
+): IronEnumFactory<ALL> {
+	const keys = args?.keys;
+	const meta: Record<string, VariantMeta | undefined> = args?.meta ?? {};
+	if (keys?.length) {
+		for (const tag of Object.keys(meta)) {
+			if (!keys.includes(tag)) {
+				throw new IronEnumDefinitionError("UNEXPECTED_VARIANT", `Unexpected variant '${tag}' in meta`);
+			}
+		}
+	}
+	let result: IronEnumFactory<ALL> = {} as any;
+	const ordinal = (tag: string) => keys?.indexOf(tag) ?? -1;
+	const frozenKeys = keys?.length ? Object.freeze([...keys]) : undefined;
+	const requireKeys = (what: string) => {
+		if (!frozenKeys) throw new IronEnumDefinitionError("KEYS_REQUIRED", `${what} requires a factory created with 'keys'`);
+		return frozenKeys;
+	};
+
+	// Options for a `pick` / `omit` child: same wire format, metadata of the kept tags.
+	const derived = (kept: string[]): IronEnumArgs<any, any> => ({
+		...args,
+		name: undefined,
+		keys: kept,
+		meta: Object.fromEntries(Object.entries(meta).filter(([tag]) => kept.includes(tag))),
+	});
+	const codec = createWireCodec(args?.wire, keys, args?.resolve, args?.name, args?.units);
+
+	// One prototype per factory, shared by every variant it creates.
+	let Variant = extendVariant(VariantBase, methods);
+	if (args?.freeze) Variant = frozenVariant(Variant);
+	// Development checks live on a subclass, built on first use. The class is
+	// picked per construction, so `configure` also reaches existing factories
+	// while production variants stay on the plain prototype.
+	const dev = args?.dev;
+	let Checked: VariantClass | undefined;
+	const checked = () => (Checked ??= diagnosticVariant(Variant, keys, args?.units, args?.name));
+
+	const build = (tag: string, data: unknown): IronEnumVariantUnion<ALL> => {
+		if (keys?.length && !keys.includes(tag)) {
+			throw new IronEnumParseError("UNEXPECTED_VARIANT", `Unexpected variant '${tag}'`, data);
+		}
+		return enumFactory<ALL, keyof ALL & string>((dev ?? devConfig.dev) ? checked() : Variant, tag, data as ALL[string], result);
+	};
+
+	const parse = (dataObj: unknown): any => {
+		const decoded = codec.decode(dataObj, false);
+		if (!decoded) {
+			throw new IronEnumParseError("INVALID_WIRE_FORMAT", "Value does not match this enum's wire format", dataObj);
+		}
+		return build(decoded.tag, decoded.data);
+	};
+
+	const _: EnumProperties<ALL, {}, any> = {
+		typeTags: undefined as never, // [TYPE ONLY]
+		typeData: undefined as never, // [TYPE ONLY]
+		typeOf: undefined as never,   // [TYPE ONLY]
+		typeJson: undefined as never,   // [TYPE ONLY]
+		name: args?.name,
+		get keys() {
+			return requireKeys("_.keys");
+		},
+		ordinal: (tag: string) => (requireKeys("_.ordinal()"), ordinal(tag)),
+		has: (tag: string): tag is keyof ALL & string => requireKeys("_.has()").includes(tag),
+		compare: (a: AnyVariant, b: AnyVariant, by?: PayloadComparator<ALL>) => compareVariants(ordinal, a, b, by),
+		sortBy<V extends AnyVariant>(list: readonly V[], by?: PayloadComparator<ALL>) {
+			return [...list].sort((a, b) => compareVariants(ordinal, a, b, by));
+		},
+		meta: (tag: string) => meta[tag],
+		parse,
+		fromJSON: parse,
+		reviver(obj: unknown) {
+			const decoded = codec.decode(obj, true);
+			return decoded ? build(decoded.tag, decoded.data) : obj;
+		},
+		eq: deepEqual,
+		matcher(callbacks: any) {
+			return compileMatcher(callbacks, keys) as any;
+		},
+		impl(more: object) {
+			return buildEnum<ALL>(args, [...methods, more], factoryLineage.get(_)) as any;
+		},
+		fold: (variant: any, handlers: any) => foldVariant(variant, handlers) as any,
+		reducer: (initial: any, handlers: any) => createReducer(initial, handlers, keys),
+		transform: (variant: any, fn: any) => transformVariant(variant, fn) as any,
+		extend(more?: string[]) {
+			if (keys?.length && !more?.length) {
+				throw new IronEnumDefinitionError("KEYS_REQUIRED", "extend() on a factory with 'keys' needs the new variants' keys");
+			}
+			const merged = keys?.length ? [...keys, ...more!] : undefined;
+			return buildEnum<any>({ ...args, name: undefined, keys: merged }, [], factoryLineage.get(_)) as any;
+		},
+		pick(list: readonly string[]) {
+			return buildEnum<any>(derived([...list]), []) as any;
+		},
+		omit(list: readonly string[]) {
+			if (!keys?.length) {
+				throw new IronEnumDefinitionError("KEYS_REQUIRED", "omit() requires a factory created with 'keys'");
+			}
+			return buildEnum<any>(derived(keys.filter((k) => !list.includes(k))), []) as any;
+		},
+		widen(variant: AnyVariant) {
+			return build(variant.tag, variant.data) as any;
+		},
+		narrow(variant: AnyVariant) {
+			if (!keys?.length) {
+				throw new IronEnumDefinitionError("KEYS_REQUIRED", "narrow() requires a factory created with 'keys'");
+			}
+			return (keys.includes(variant.tag)
+				? Some(build(variant.tag, variant.data))
+				: None()) as any;
+		},
+	};
+
+	factoryCodecs.set(_, codec);
+	if (frozenKeys) factoryKeys.set(_, frozenKeys);
+	factoryLineage.set(_, lineage ?? _);
+
+	// Keyed fast-path (no Proxy)
+	if (keys?.length) {
+		result = { _ } as IronEnumFactory<ALL>;
+		for (const key of keys) {
+			(result as any)[key] = ((...args: [any?]) =>
+				enumFactory<ALL, typeof key>((dev ?? devConfig.dev) ? checked() : Variant, key, args[0], result)) as any;
+		}
+		return result as any;
+	}
+
+	// Dynamic Proxy builder with built-in guard
+	const BUILTINS = new Set(["toString", "valueOf", "inspect", "constructor"]);
+	// Constructors are created once per tag and reused on later lookups.
+	const ctors = new Map<string, (...args: [any?]) => unknown>();
+	result = new Proxy(
+		{},
+		{
+			get: (_tgt, prop: string | symbol) => {
+				if (prop === "_") return _;
+				if (typeof prop !== "string") return undefined;
+				if (BUILTINS.has(prop)) {
+					const fn = (Object.prototype as any)[prop];
+					return typeof fn === "function" ? fn.bind(result) : undefined;
+				}
+				let ctor = ctors.get(prop);
+				if (!ctor) {
+					ctor = (...args: [any?]) => {
+						const data = args[0] as ALL[typeof prop];
+						return enumFactory<ALL, typeof prop>((dev ?? devConfig.dev) ? checked() : Variant, prop, data, result);
+					};
+					ctors.set(prop, ctor);
+				}
+				return ctor;
+			},
+		}
+	) as any;
+
+	return result as any;
+}
+
+/* =============================================================================
+ * Matching Several Enums at Once
+ * ============================================================================= */
+
+/** Minimal structural shape of any variant instance. */
+type AnyVariant = { readonly tag: string; readonly data: unknown };
+
+/** Tag union of a variant (or union of variants). */
+type TagOfVariant<V> = V extends { readonly tag: infer T extends string } ? T : never;
+
+/** Narrow a variant type to a tag, leaving it untouched for the `_` wildcard. */
+type VariantWithTag<V, K> = K extends "_" ? V : NarrowByPattern<V, { readonly tag: K }>;
+
+/** Split a `"A,B,C"` handler key into its per-position tags. */
+type SplitKey<K extends string> = K extends `${infer H},${infer T}` ? [H, ...SplitKey<T>] : [K];
+
+/**
+ * Every handler key for a tuple of variants: per-position tags or `_`,
+ * joined with commas, e.g. `"Ok,Err" | "Ok,_" | "_,Err" | "_,_"`.
+ */
+type ZipKeys<Vs extends readonly unknown[]> = Vs extends readonly [infer H]
+	? TagOfVariant<H> | "_"
+	: Vs extends readonly [infer H, ...infer R]
+	? `${TagOfVariant<H> | "_"},${ZipKeys<R>}`
+	: never;
+
+/** Every concrete tag combination for a tuple of variants. */
+type ZipCombos<Vs extends readonly unknown[]> = Vs extends readonly [infer H]
+	? TagOfVariant<H>
+	: Vs extends readonly [infer H, ...infer R]
+	? `${TagOfVariant<H>},${ZipCombos<R>}`
+	: never;
+
+/** Expand the `_` wildcards in a handler key into the combinations it covers. */
+type ExpandZipKey<K extends string, Vs extends readonly unknown[]> = Vs extends readonly [infer H]
+	? K extends "_" ? TagOfVariant<H> : K
+	: Vs extends readonly [infer H, ...infer R]
+	? K extends `${infer Head},${infer Tail}`
+		? `${Head extends "_" ? TagOfVariant<H> : Head},${ExpandZipKey<Tail, R>}`
+		: never
+	: never;
+
+/** Handler for one key: receives every variant, narrowed by position. */
+type ZipHandler<Vs extends readonly unknown[], K extends string> = (
+	...variants: { [I in keyof Vs]: VariantWithTag<Vs[I], SplitKey<K>[I & keyof SplitKey<K>]> }
+) => any;
+
+/** Per-combination handlers for `matchAll`. */
+type ZipMatchFns<Vs extends readonly unknown[]> = {
+	[K in ZipKeys<Vs>]?: ZipHandler<Vs, K>;
+};
+
+/** Combinations not covered by any key of `A`. */
+type MissingCombos<Vs extends readonly unknown[], A> = Exclude<
+	ZipCombos<Vs>,
+	ExpandZipKey<keyof A & string, Vs>
+>;
+
+/** Require handlers for every uncovered combination (surfaces as a compile error). */
+type RequireCombos<Vs extends readonly unknown[], MISSING extends string> = [MISSING] extends [never]
+	? unknown
+	: { [K in MISSING]: ZipHandler<Vs, K> };
+
+/**
+ * Shared runtime dispatch for `matchAll` / `matchAllExhaustive`.
+ *
+ * An exact tag combination wins, then wildcard keys in declaration order,
+ * then the `_` fallback.
+ */
+function dispatchAll(variants: readonly AnyVariant[], handlers: any) {
+	const tags = variants.map((v) => v.tag);
+	const exact = handlers[tags.join(",")];
+	if (exact) return exact(...variants);
+	for (const key in handlers) {
+		if (key === "_") continue;
+		const parts = key.split(",");
+		if (
+			parts.length === tags.length &&
+			parts.every((p, i) => p === "_" || p === tags[i])
+		) {
+			return handlers[key](...variants);
+		}
+	}
+	if (handlers._) return handlers._(...variants);
+	throw new NonExhaustiveMatchError(`No handler for '${tags.join(",")}' and no '_' fallback`, [tags.join(",")], variants);
+}
+
+/**
+ * Pattern match on a tuple of variants at once.
+ *
+ * Handler keys are the tags of each variant joined with commas. Any position
+ * may be `_` to match every tag there, and a bare `_` key handles whatever is
+ * left. Each handler receives all variants, narrowed to the matched tags.
+ * Unless every combination is covered, a `_` handler is required.
+ *
+ * @example
+ * const label = matchAll([status, permission], {
+ * 		"Active,Admin": (s, p) => `admin since ${s.data.since}`,
+ * 		"Active,_": () => "active user",
+ * 		_: () => "no access",
+ * });
+ */
+export function matchAll<
+	const Vs extends readonly AnyVariant[],
+	A extends ZipMatchFns<Vs> & { _?: (...variants: Vs) => any }
+>(
+	variants: Vs,
+	handlers: A & ("_" extends keyof A ? unknown : RequireCombos<Vs, MissingCombos<Vs, A>>)
+): MatchResult<A> {
+	return dispatchAll(variants, handlers);
+}
+
+/**
+ * Exhaustive pattern match on a tuple of variants.
+ *
+ * Like `matchAll`, but no bare `_` fallback is allowed and compilation fails
+ * if any tag combination is not covered by an exact or wildcard key.
+ *
+ * @example
+ * const both = matchAllExhaustive([r1, r2], {
+ * 		"Ok,Ok": (a, b) => a.data + b.data,
+ * 		"Err,_": (a) => a.data,
+ * 		"Ok,Err": (_, b) => b.data,
+ * });
+ */
+export function matchAllExhaustive<
+	const Vs extends readonly AnyVariant[],
+	A extends ZipMatchFns<Vs> & { _?: never }
+>(
+	variants: Vs,
+	handlers: A & RequireCombos<Vs, MissingCombos<Vs, A>>
+): MatchResult<A> {
+	return dispatchAll(variants, handlers);
+}
+
+/* =============================================================================
+ * Recursive Enums
+ * ============================================================================= */
+
+/**
+ * `T` with every nested variant of `ALL` replaced by `R`, following arrays
+ * and plain objects. Mirrors what `_.fold` does at runtime.
+ */
+type FoldData<T, ALL extends VariantsRecord, R> =
+	T extends { readonly tag: keyof ALL & string; readonly data: unknown; readonly instance: unknown }
+		? R
+		: T extends Date | Map<any, any> | Set<any> | ((...args: any[]) => unknown)
+			? T
+			: T extends object
+				? { [K in keyof T]: FoldData<T[K], ALL, R> } // also maps arrays and tuples
+				: T;
+
+/** One handler per tag for `_.fold`. */
+type FoldHandlers<ALL extends VariantsRecord, R, W extends WireOptions = DefaultWire> = {
+	[K in keyof ALL & string]: (data: FoldData<ALL[K], ALL, R>, self: IronEnumVariant<K, ALL[K], ALL, W>) => R;
+};
+
+/**
+ * Apply `f` to every variant of the enum with `lineage` (including its `impl`
+ * and `extend` copies) nested in `value`, through arrays and plain objects,
+ * without descending into those variants. Returns `value` itself when nothing
+ * changed.
+ */
+function mapNested(value: unknown, lineage: object | undefined, f: (v: VariantBase) => unknown): unknown {
+	if (value instanceof VariantBase) {
+		return lineage !== undefined && lineageOf(value.instance) === lineage ? f(value) : value;
+	}
+	if (Array.isArray(value)) {
+		let changed = false;
+		const out = value.map((item) => {
+			const next = mapNested(item, lineage, f);
+			if (next !== item) changed = true;
+			return next;
+		});
+		return changed ? out : value;
+	}
+	if (isPlainObject(value)) {
+		let changed = false;
+		const out: Record<string, unknown> = {};
+		for (const k of Object.keys(value)) {
+			out[k] = mapNested(value[k], lineage, f);
+			if (out[k] !== value[k]) changed = true;
+		}
+		return changed ? out : value;
+	}
+	return value;
+}
+
+/** Runtime of `_.fold`. */
+function foldVariant(node: VariantBase, handlers: Record<string, (data: unknown, self: unknown) => unknown>): unknown {
+	const handler = handlers[node.tag];
+	if (typeof handler !== "function") {
+		throw new NonExhaustiveMatchError(`fold has no handler for '${node.tag}'`, [node.tag], node);
+	}
+	return handler(mapNested(node.data, lineageOf(node.instance), (child) => foldVariant(child, handlers)), node);
+}
+
+/** Runtime of `_.transform`. */
+function transformVariant(node: VariantBase, fn: (node: any) => unknown): unknown {
+	const data = mapNested(node.data, lineageOf(node.instance), (child) => transformVariant(child, fn));
+	return fn(data === node.data ? node : rebuildVariant(node, data));
+}
+
+/* =============================================================================
+ * Reducers & Event Sourcing
+ * ============================================================================= */
+
+/** One handler per event tag, as for `matchExhaustive`, receiving the current state. */
+type ReducerFns<ALL extends VariantsRecord, S> = {
+	[K in keyof ExhaustiveFns<ALL>]: (state: S, payload: ALL[K], event: IronEnumVariant<K, ALL[K], ALL>) => S;
+};
+
+/**
+ * A state together with the number of events that produced it. Pass it back
+ * to `snapshot` with only the newer events to resume where it left off.
+ */
+export type ReducerSnapshot<S> = {
+	readonly state: S;
+	readonly version: number;
+};
+
+/**
+ * Reducer returned by `_.reducer`. Callable as `(state, event) => state`, so it
+ * works with `Array.prototype.reduce` and UI reducer hooks.
+ */
+export type EnumReducer<S, ALL extends VariantsRecord> = {
+	(state: S, event: AnyVariantOf<ALL>): S;
+
+	/** State used when no starting point is given. */
+	readonly initial: S;
+
+	/** Apply `events` in order, starting from `from` (or `initial`). */
+	replay(events: Iterable<AnyVariantOf<ALL>>, from?: S): S;
+
+	/** Like `replay`, for async iterables such as event-store cursors or streams. */
+	replayAsync(events: AsyncIterable<AnyVariantOf<ALL>> | Iterable<AnyVariantOf<ALL>>, from?: S): Promise<S>;
+
+	/**
+	 * Apply `events` on top of a snapshot (or `initial` at version 0) and
+	 * return the new snapshot.
+	 *
+	 * @example
+	 * let snap = balance.snapshot(firstBatch);
+	 * snap = balance.snapshot(store.eventsAfter(snap.version), snap);
+	 */
+	snapshot(events: Iterable<AnyVariantOf<ALL>>, from?: ReducerSnapshot<S>): ReducerSnapshot<S>;
+
+	/** Like `snapshot`, for async iterables. */
+	snapshotAsync(
+		events: AsyncIterable<AnyVariantOf<ALL>> | Iterable<AnyVariantOf<ALL>>,
+		from?: ReducerSnapshot<S>
+	): Promise<ReducerSnapshot<S>>;
+};
+
+/** Runtime of `_.reducer`. */
+function createReducer<S>(
+	initial: S,
+	handlers: Record<string, (state: S, payload: unknown, event: AnyVariant) => S>,
+	keys: readonly string[] | undefined
+): EnumReducer<S, any> {
+	if (keys?.length) {
+		const missing = keys.filter((k) => typeof handlers[k] !== "function");
+		if (missing.length) {
+			throw new NonExhaustiveMatchError(
+				`Reducer has no handler for ${missing.map((k) => `'${k}'`).join(", ")}`,
+				missing
+			);
+		}
+	}
+
+	const reduce = (state: S, event: AnyVariant): S => {
+		const handler = handlers[event.tag];
+		if (typeof handler !== "function") {
+			throw new NonExhaustiveMatchError(`Reducer has no handler for '${event.tag}'`, [event.tag], event);
+		}
+		return handler(state, event.data, event);
+	};
+
+	const snapshot = (events: Iterable<AnyVariant>, from?: ReducerSnapshot<S>): ReducerSnapshot<S> => {
+		let state = from ? from.state : initial;
+		let version = from ? from.version : 0;
+		for (const event of events) {
+			state = reduce(state, event);
+			version++;
+		}
+		return { state, version };
+	};
+
+	const snapshotAsync = async (
+		events: AsyncIterable<AnyVariant> | Iterable<AnyVariant>,
+		from?: ReducerSnapshot<S>
+	): Promise<ReducerSnapshot<S>> => {
+		let state = from ? from.state : initial;
+		let version = from ? from.version : 0;
+		for await (const event of events) {
+			state = reduce(state, event);
+			version++;
+		}
+		return { state, version };
+	};
+
+	return Object.assign(reduce, {
+		initial,
+		replay: (events: Iterable<AnyVariant>, from: S = initial) => snapshot(events, { state: from, version: 0 }).state,
+		replayAsync: async (events: AsyncIterable<AnyVariant> | Iterable<AnyVariant>, from: S = initial) =>
+			(await snapshotAsync(events, { state: from, version: 0 })).state,
+		snapshot,
+		snapshotAsync,
+	});
+}
+
+/* =============================================================================
+ * Generic Enums
+ * ============================================================================= */
+
+/**
+ * Type-level description of a generic enum. Extend it and set `variants` to
+ * your generic variants type applied to `this["A"]`, `this["B"]` and
+ * `this["C"]`, which stand for the enum's type parameters.
+ *
+ * @example
+ * type RemoteDataVariants<T, E> = {
+ * 		NotAsked: undefined;
+ * 		Loading: undefined;
+ * 		Success: T;
+ * 		Failure: E;
+ * };
+ * interface RemoteDataKind extends EnumKind {
+ * 		readonly variants: RemoteDataVariants<this["A"], this["B"]>;
+ * }
+ */
+export interface EnumKind {
+	readonly A: unknown;
+	readonly B: unknown;
+	readonly C: unknown;
+	readonly variants: VariantsRecord;
+}
+
+/** Variants of the generic enum `F` with its type parameters filled in. */
+export type ApplyKind<F extends EnumKind, A = unknown, B = unknown, C = unknown> = Extract<
+	(F & { readonly A: A; readonly B: B; readonly C: C })["variants"],
+	VariantsRecord
+>;
+
+/**
+ * A generic enum: call it with type arguments to get a typed factory.
+ * Every instantiation shares one factory, prototype and set of methods.
+ */
+export type GenericEnumFactory<F extends EnumKind, W extends WireOptions = DefaultWire, M = {}> = {
+	<A = unknown, B = unknown, C = unknown>(): IronEnumFactory<ApplyKind<F, A, B, C>, W, M>;
+
+	/**
+	 * Attach methods shared by every instantiation, like `_.impl`.
+	 * Inside a method the type parameters are `unknown`.
+	 */
+	impl<MORE extends Record<string, unknown>>(
+		methods: MORE & ThisType<IronEnumVariantUnion<ApplyKind<F>, W> & M & MORE>
+	): GenericEnumFactory<F, W, M & MORE>;
+};
+
+/**
+ * Declare a generic enum once and instantiate it per type argument, the way
+ * `Result<T, E>()` and `Option<T>()` work. Instantiation allocates nothing:
+ * the type arguments only exist at compile time.
+ *
+ * @example
+ * const RemoteData = GenericEnum<RemoteDataKind>({
+ * 		keys: ["NotAsked", "Loading", "Success", "Failure"],
+ * }).impl({
+ * 		isSettled(): boolean {
+ * 			return this.tag === "Success" || this.tag === "Failure";
+ * 		},
+ * });
+ *
+ * const Users = RemoteData<User[], string>();
+ * Users.Success([]).isSettled(); // true
+ */
+export function GenericEnum<F extends EnumKind, W extends WireOptions = DefaultWire>(
+	args?: IronEnumArgs<ApplyKind<F>, W>
+): GenericEnumFactory<F, W> {
+	return genericFrom(buildEnum<any>(args, []));
+}
+
+/** Wrap a built factory as a `GenericEnumFactory`. */
+function genericFrom(base: IronEnumFactory<any, any, any>): any {
+	return Object.assign(() => base, {
+		impl: (methods: object) => genericFrom(base._.impl(methods as Record<string, unknown>)),
+	});
+}
+
+/* =============================================================================
+ * Enum Registry (polymorphic JSON revival)
+ * ============================================================================= */
+
+/** Any factory exposing `_`, including `Result` / `Option` factories. */
+type AnyEnumFactory = { readonly _: EnumProperties<any, any, any> };
+
+/**
+ * A set of named enum factories that can revive nested variants of all of
+ * them from a single JSON document.
+ */
+export type EnumRegistry = {
+	/**
+	 * Add named factories. Throws if a factory has no `name` or the name is
+	 * already taken by another factory.
+	 */
+	register(...factories: AnyEnumFactory[]): EnumRegistry;
+
+	/** Look up a registered factory by name. */
+	get(name: string): AnyEnumFactory | undefined;
+
+	/**
+	 * JSON.parse reviver. Values stamped with a registered enum name are
+	 * rebuilt by that factory; other values, including objects whose `enum`
+	 * field names no registered enum, are returned unchanged.
+	 *
+	 * @example
+	 * const value = JSON.parse(text, (k, v) => registry.reviver(v));
+	 */
+	reviver(obj: unknown): unknown;
+
+	/**
+	 * `JSON.parse` with `reviver` applied, except that values stamped with an
+	 * unknown enum name throw an `IronEnumParseError` (`UNKNOWN_ENUM`).
+	 */
+	parse(text: string): unknown;
+};
+
+/**
+ * Create a registry of named enum factories.
+ *
+ * Named factories write their name next to the tag (`{ enum, tag, data }`),
+ * which lets the registry rebuild every nested variant with the right
+ * factory, even across different enums.
+ *
+ * @example
+ * const Status = IronEnum<{ Active: undefined; Banned: { reason: string } }>({ name: "Status" });
+ * const Payload = Result<typeof Status._.typeOf, string>({ name: "StatusResult" });
+ *
+ * const registry = createEnumRegistry(Status, Payload);
+ * const value = registry.parse(JSON.stringify(Payload.Ok(Status.Active())));
+ */
+export function createEnumRegistry(...factories: AnyEnumFactory[]): EnumRegistry {
+	const byName = new Map<string, AnyEnumFactory>();
+	const enumKeys = new Set<string>();
+
+	// `strict` is set by `parse`, which rejects unknown names instead of passing them through.
+	const revive = (obj: unknown, strict: boolean): unknown => {
+		if (!isWireRecord(obj)) return obj;
+		for (const key of enumKeys) {
+			const name = obj[key];
+			if (typeof name !== "string") continue;
+			const factory = byName.get(name);
+			if (factory) return factory._.reviver(obj);
+			if (strict) {
+				throw new IronEnumParseError(
+					"UNKNOWN_ENUM",
+					`Unknown enum '${name}'. Registered: ${[...byName.keys()].map((k) => `'${k}'`).join(", ")}`,
+					obj
+				);
+			}
+		}
+		return obj;
+	};
+
+	const registry: EnumRegistry = {
+		register(...more) {
+			for (const factory of more) {
+				const codec = factoryCodecs.get(factory._);
+				const name = codec?.name;
+				if (name === undefined || codec?.enumKey === undefined) {
+					throw new IronEnumDefinitionError(
+						"INVALID_REGISTRATION",
+						"Only named enums with an adjacent or internal wire format can be registered"
+					);
+				}
+				const existing = byName.get(name);
+				if (existing && existing !== factory) {
+					throw new IronEnumDefinitionError("INVALID_REGISTRATION", `An enum named '${name}' is already registered`);
+				}
+				byName.set(name, factory);
+				enumKeys.add(codec.enumKey);
+			}
+			return registry;
+		},
+		get: (name) => byName.get(name),
+		reviver: (obj) => revive(obj, false),
+		parse: (text) => JSON.parse(text, (_k, v) => revive(v, true)),
+	};
+
+	return registry.register(...factories);
+}
+
+/* =============================================================================
+ * State Machines
+ * ============================================================================= */
+
+/** Variant union of a factory. */
+type VariantsOf<F extends AnyEnumFactory> = F["_"]["typeOf"];
+
+/** Variant of factory `F` with tag `K`. */
+type VariantOf<F extends AnyEnumFactory, K> = Extract<VariantsOf<F>, { readonly tag: K }>;
+
+/**
+ * Allowed transitions: for each state tag, the events it accepts and a
+ * function computing the next state. Returning `undefined` rejects the event,
+ * which is how guards are written.
+ */
+export type MachineTransitions<S extends AnyEnumFactory, E extends AnyEnumFactory> = {
+	[ST in S["_"]["typeTags"]]?: {
+		[ET in E["_"]["typeTags"]]?: (state: VariantOf<S, ST>, event: VariantOf<E, ET>) => VariantsOf<S> | undefined;
+	};
+};
+
+/** Event tags accepted by state tag `ST`. */
+type AllowedEvents<T, ST> = ST extends keyof T ? keyof NonNullable<T[ST]> & string : never;
+
+/** One entry of a machine's history. */
+export type MachineStep<S extends AnyEnumFactory, E extends AnyEnumFactory> = {
+	readonly from: VariantsOf<S>;
+	readonly event: VariantsOf<E>;
+	readonly to: VariantsOf<S>;
+};
+
+/** A running state machine created by `createMachine`. */
+export type Machine<
+	S extends AnyEnumFactory,
+	E extends AnyEnumFactory,
+	T extends MachineTransitions<S, E> = MachineTransitions<S, E>
+> = {
+	/** Current state. */
+	readonly state: VariantsOf<S>;
+
+	/** Completed transitions, oldest first (bounded by `historyLimit`). */
+	readonly history: readonly MachineStep<S, E>[];
+
+	/**
+	 * Apply an event to the current state. Returns `Ok(nextState)` and notifies
+	 * subscribers, or `Err(IllegalTransitionError)` leaving the state unchanged.
+	 */
+	send(event: VariantsOf<E>): ResultVariant<{ Ok: VariantsOf<S>; Err: IllegalTransitionError }>;
+
+	/**
+	 * Whether `event` would be accepted now. A tag only checks the transition
+	 * table; a variant also runs the transition's guard.
+	 */
+	can(event: E["_"]["typeTags"] | VariantsOf<E>): boolean;
+
+	/** Call `listener` after every successful transition. Returns an unsubscribe function. */
+	subscribe(listener: (state: VariantsOf<S>, step: MachineStep<S, E>) => void): () => void;
+
+	/**
+	 * Compute a transition without touching the machine. When the state's tag
+	 * is known statically, only events it accepts type-check.
+	 */
+	transition<ST extends S["_"]["typeTags"], ET extends AllowedEvents<T, ST>>(
+		state: VariantOf<S, ST>,
+		event: VariantOf<E, ET>
+	): ResultVariant<{ Ok: VariantsOf<S>; Err: IllegalTransitionError }>;
+};
+
+/**
+ * Create a finite state machine whose states and events are IronEnum variants.
+ *
+ * @example
+ * const Door = createMachine(DoorState, DoorEvent, {
+ * 		Closed: {
+ * 			Open: () => DoorState.Opened(),
+ * 			Lock: (_s, e) => DoorState.Locked({ code: e.data.code }),
+ * 		},
+ * 		Opened: { Close: () => DoorState.Closed() },
+ * 		Locked: {
+ * 			Unlock: (s, e) => (e.data.code === s.data.code ? DoorState.Closed() : undefined),
+ * 		},
+ * }, { initial: DoorState.Closed() });
+ *
+ * Door.send(DoorEvent.Lock({ code: 42 })); // Ok(Locked)
+ * Door.can("Open"); // false
+ */
+export function createMachine<
+	S extends AnyEnumFactory,
+	E extends AnyEnumFactory,
+	T extends MachineTransitions<S, E>
+>(
+	states: S,
+	events: E,
+	transitions: T,
+	options: { initial: VariantsOf<S>; historyLimit?: number }
+): Machine<S, E, T> {
+	const stateKeys = factoryKeys.get(states._);
+	if (stateKeys) {
+		for (const tag of Object.keys(transitions)) {
+			if (!stateKeys.includes(tag)) {
+				throw new IronEnumDefinitionError("UNEXPECTED_VARIANT", `Unexpected state '${tag}' in transitions`);
+			}
+		}
+	}
+
+	const table = transitions as Record<string, Record<string, ((s: unknown, e: unknown) => unknown) | undefined> | undefined>;
+	const limit = options.historyLimit ?? Infinity;
+	const history: MachineStep<S, E>[] = [];
+	const listeners = new Set<(state: VariantsOf<S>, step: MachineStep<S, E>) => void>();
+	let current: VariantsOf<S> = options.initial;
+
+	const transition = (state: AnyVariant, event: AnyVariant): any => {
+		const eventKeys = factoryKeys.get(events._);
+		const handler = eventKeys && !eventKeys.includes(event.tag) ? undefined : table[state.tag]?.[event.tag];
+		const next = handler?.(state, event);
+		return next === undefined ? Err(new IllegalTransitionError(state, event)) : Ok(next);
+	};
+
+	return {
+		get state() {
+			return current;
+		},
+		get history() {
+			return history;
+		},
+		send(event) {
+			const result = transition(current, event);
+			if (result.isOk()) {
+				const step: MachineStep<S, E> = { from: current, event, to: result.unwrap() };
+				current = step.to;
+				history.push(step);
+				if (history.length > limit) history.shift();
+				for (const listener of listeners) listener(current, step);
+			}
+			return result;
+		},
+		can(event) {
+			if (typeof event === "string") return typeof table[current.tag]?.[event] === "function";
+			return transition(current, event).isOk();
+		},
+		subscribe(listener) {
+			listeners.add(listener);
+			return () => {
+				listeners.delete(listener);
+			};
+		},
+		transition,
+	};
+}
+
+/* =============================================================================
+ * Result Type (Rust-style error handling)
+ * ============================================================================= */
+
+/**
+ * Methods common to success-carrying types that allow extracting values,
+ * defaults, or lazily computed fallbacks.
+ */
+type ExtendedRustMethods<T> = {
+	/**
+	 * Return the success value.
+	 * **Throws** if the variant is `Err` or `None`: an `Err` holding an
+	 * `Error` rethrows it unchanged, any other payload throws an `UnwrapError`
+	 * with the payload as `cause`.
+	 *
+	 * @example
+	 * Ok(1).unwrap(); // 1
+	 * Err("!").unwrap(); // Throws
+	 * None().unwrap(); // Throws
+	 */
+	unwrap(): T;
+
+	/**
+	 * Return the success value or a provided default.
+	 *
+	 * @example
+	 * Ok(1).unwrap_or(0); // 1
+	 * Err("!").unwrap_or(0); // 0
+	 * None().unwrap_or(0); // 0
+	 */
+	unwrap_or<R>(value: R): R | T;
+
+	/**
+	 * Return the success value or the result of a fallback function.
+	 * The callback is only executed if needed.
+	 *
+	 * @example
+	 * Ok(1).unwrap_or_else(() => 0); // 1
+	 * Err("!").unwrap_or_else(() => 0); // 0
+	 * None().unwrap_or_else(() => expensive_calc()); // 0
+	 */
+	unwrap_or_else<R>(cb: () => R): R | T;
+};
+
+/**
+ * Result-specific helpers for mapping and chaining.
+ */
+type ResultMethods<ALL extends { Ok: unknown; Err: unknown }> = {
+	/**
+	 * Convert `Result<T,E>` to `Option<T>`, dropping the error.
+	 *
+	 * @example
+	 * Ok(1).ok(); // Some(1)
+	 * Err("!").ok(); // None()
+	 */
+	ok(): OptionVariant<{ Some: ALL["Ok"]; None: undefined }>;
+
+	/**
+	 * Predicate for `Ok` variant.
+	 *
+	 * @example
+	 * if (myResult.isOk()) { ... }
+	 */
+	isOk(): boolean;
+
+	/**
+	 * Predicate for `Err` variant.
+	 *
+	 * @example
+	 * if (myResult.isErr()) { ... }
+	 */
+	isErr(): boolean;
+
+	/**
+	 * Map the `Ok` value, leaving `Err` untouched.
+	 *
+	 * @example
+	 * Ok(1).map(x => x + 1); // Ok(2)
+	 * Err("!").map(x => x + 1); // Err("!")
+	 */
+	map<U>(f: (t: ALL["Ok"]) => U): ResultVariant<{ Ok: U; Err: ALL["Err"] }>;
+
+	/**
+	 * Map the `Err` value, leaving `Ok` untouched.
+	 *
+	 * @example
+	 * Ok(1).mapErr(x => x + "!"); // Ok(1)
+	 * Err("!").mapErr(x => x + "!"); // Err("!!")
+	 */
+	mapErr<F>(f: (e: ALL["Err"]) => F): ResultVariant<{ Ok: ALL["Ok"]; Err: F }>;
+
+	/**
+	 * Chain a new `Result`-returning operation when `Ok`.
+	 * Also known as `flatMap`. The error type widens to include the errors
+	 * `f` can return.
+	 *
+	 * @example
+	 * const safeDivide = (n: number) => n === 0 ? Err("div by 0") : Ok(10 / n);
+	 *
+	 * Ok(5).andThen(safeDivide); // Ok(2)
+	 * Ok(0).andThen(safeDivide); // Err("div by 0")
+	 * Err("!").andThen(safeDivide); // Err("!")
+	 *
+	 * loadUser(id).andThen(issueToken); // Result<Token, DbError | AuthError>
+	 */
+	andThen<R extends AnyResult>(f: (t: ALL["Ok"]) => R): ResultVariant<{ Ok: OkOf<R>; Err: ALL["Err"] | ErrOf<R> }>;
+
+	/**
+	 * Convert `Result<T,E>` to `Option<E>`, dropping the success value.
+	 *
+	 * @example
+	 * Ok(1).err(); // None()
+	 * Err("!").err(); // Some("!")
+	 */
+	err(): OptionVariant<{ Some: ALL["Err"]; None: undefined }>;
+
+	/**
+	 * Return the `Ok` value, or throw an `UnwrapError` whose message starts
+	 * with `message` and whose `cause` is the error payload (`Error` payloads
+	 * included, unlike `unwrap()`).
+	 *
+	 * @example
+	 * readConfig().expect("config must be readable");
+	 */
+	expect(message: string): ALL["Ok"];
+
+	/**
+	 * Return the `Err` value. **Throws** an `UnwrapError` on `Ok`.
+	 *
+	 * @example
+	 * Err("!").unwrapErr(); // "!"
+	 */
+	unwrapErr(): ALL["Err"];
+
+	/**
+	 * Return the `Err` value, or throw an `UnwrapError` with `message` on `Ok`.
+	 *
+	 * @example
+	 * validate(bad).expectErr("bad input must not validate");
+	 */
+	expectErr(message: string): ALL["Err"];
+
+	/**
+	 * Return `other` if this is `Ok`, otherwise this `Err`.
+	 *
+	 * @example
+	 * Ok(1).and(Ok("a")); // Ok("a")
+	 * Err("!").and(Ok("a")); // Err("!")
+	 */
+	and<R extends AnyResult>(other: R): ResultVariant<{ Ok: OkOf<R>; Err: ALL["Err"] | ErrOf<R> }>;
+
+	/**
+	 * Return this if it is `Ok`, otherwise `other`.
+	 *
+	 * @example
+	 * Err("!").or(Ok(2)); // Ok(2)
+	 */
+	or<R extends AnyResult>(other: R): ResultVariant<{ Ok: ALL["Ok"] | OkOf<R>; Err: ErrOf<R> }>;
+
+	/**
+	 * Recover from `Err` by calling `f` with the error. `Ok` passes through,
+	 * so the `Ok` type widens to include the values `f` can return.
+	 *
+	 * @example
+	 * fetchCached(id).orElse(() => fetchRemote(id));
+	 */
+	orElse<R extends AnyResult>(f: (e: ALL["Err"]) => R): ResultVariant<{ Ok: ALL["Ok"] | OkOf<R>; Err: ErrOf<R> }>;
+
+	/**
+	 * Map the `Ok` value, or return `fallback` for `Err`.
+	 *
+	 * @example
+	 * Ok(2).mapOr(0, (x) => x * 2); // 4
+	 * Err("!").mapOr(0, (x) => x * 2); // 0
+	 */
+	mapOr<U>(fallback: U, f: (t: ALL["Ok"]) => U): U;
+
+	/**
+	 * Map the `Ok` value with `f`, or the `Err` value with `fallback`.
+	 *
+	 * @example
+	 * r.mapOrElse((e) => `error: ${e}`, (v) => `value: ${v}`);
+	 */
+	mapOrElse<U>(fallback: (e: ALL["Err"]) => U, f: (t: ALL["Ok"]) => U): U;
+
+	/**
+	 * Call `f` with the `Ok` value (for logging and similar side effects) and
+	 * return the result unchanged.
+	 *
+	 * @example
+	 * load().inspect((v) => console.log("loaded", v)).map(process);
+	 */
+	inspect(f: (t: ALL["Ok"]) => void): ResultVariant<ALL>;
+
+	/**
+	 * Call `f` with the `Err` value and return the result unchanged.
+	 *
+	 * @example
+	 * load().inspectErr((e) => logger.warn(e));
+	 */
+	inspectErr(f: (e: ALL["Err"]) => void): ResultVariant<ALL>;
+
+	/**
+	 * `true` when this is `Ok` and its value satisfies `predicate`.
+	 *
+	 * @example
+	 * Ok(3).isOkAnd((x) => x > 2); // true
+	 */
+	isOkAnd(predicate: (t: ALL["Ok"]) => boolean): boolean;
+
+	/**
+	 * `true` when this is `Err` and its error satisfies `predicate`.
+	 *
+	 * @example
+	 * Err(404).isErrAnd((code) => code === 404); // true
+	 */
+	isErrAnd(predicate: (e: ALL["Err"]) => boolean): boolean;
+
+	/**
+	 * Remove one level of nesting from `Result<Result<T,E2>,E>`.
+	 *
+	 * @example
+	 * Ok(Ok(1)).flatten(); // Ok(1)
+	 * Ok(Err("inner")).flatten(); // Err("inner")
+	 */
+	flatten(): ALL["Ok"] extends ResultVariant<infer I>
+		? ResultVariant<{ Ok: I["Ok"]; Err: ALL["Err"] | I["Err"] }>
+		: never;
+
+	/**
+	 * Turn `Result<Option<T>,E>` into `Option<Result<T,E>>`.
+	 *
+	 * @example
+	 * Ok(Some(1)).transpose(); // Some(Ok(1))
+	 * Ok(None()).transpose(); // None()
+	 * Err("!").transpose(); // Some(Err("!"))
+	 */
+	transpose(): ALL["Ok"] extends OptionVariant<infer O>
+		? OptionVariant<{ Some: ResultVariant<{ Ok: O["Some"]; Err: ALL["Err"] }>; None: undefined }>
+		: never;
+
+	/**
+	 * Return the `Ok` value, or `undefined` for `Err`. JavaScript has no
+	 * `Default` trait, so `undefined` stands in for the type's default value.
+	 *
+	 * @example
+	 * Err("!").unwrapOrDefault(); // undefined
+	 */
+	unwrapOrDefault(): ALL["Ok"] | undefined;
+
+	/**
+	 * Iterate over the `Ok` value: yields it once for `Ok`, nothing for `Err`.
+	 *
+	 * @example
+	 * const values = results.flatMap((r) => [...r.iter()]);
+	 */
+	iter(): IterableIterator<ALL["Ok"]>;
+
+	/**
+	 * Early-return protocol for `Result.gen`: `yield* result` evaluates to the
+	 * `Ok` value, or hands the `Err` to `Result.gen`, which returns it.
+	 *
+	 * @example
+	 * Result.gen(function* () {
+	 *   const n = yield* parseNumber(input);
+	 *   return n * 2;
+	 * });
+	 */
+	[Symbol.iterator](): Generator<ResultVariant<{ Ok: never; Err: ALL["Err"] }>, ALL["Ok"], unknown>;
+};
+
+/**
+ * A Result instance (Ok or Err) with extraction and mapping helpers.
+ *
+ * This type is invariant, meaning `Result<T, never>` is not assignable
+ * to `Result<T, string>`.
+ *
+ * To accept `Result` in a function, either use a specific factory:
+ * @example
+ * const MyResult = Result<string, Error>();
+ * function process(r: typeof MyResult._.typeOf) { ... }
+ *
+ * // Or make the function generic:
+ * function process<T, E>(r: ResultVariant<{ Ok: T, Err: E }>) { ... }
+ */
+export type ResultVariant<ALL extends { Ok: unknown; Err: unknown }> =
+	IronEnumVariant<keyof ALL & string, ALL[keyof ALL], ALL> &
+	ExtendedRustMethods<ALL["Ok"]> &
+	ResultMethods<ALL>;
+
+/**
+ * Factory for creating Ok and Err variants plus metadata via `_`.
+ *
+ * @example
+ * const R = Result<number, string>();
+ * const r1 = R.Ok(1);
+ * const r2 = R.Err("nope");
+ */
+export type ResultFactory<ALL extends { Ok: unknown; Err: unknown }> = {
+    Ok(data: ALL["Ok"]): IronEnumVariant<"Ok", ALL["Ok"], ALL> & ExtendedRustMethods<ALL["Ok"]> & ResultMethods<ALL>;
+    Err(data: ALL["Err"]): IronEnumVariant<"Err", ALL["Err"], ALL> & ExtendedRustMethods<ALL["Ok"]> & ResultMethods<ALL>;
+    _: EnumProperties<ALL, ExtendedRustMethods<ALL["Ok"]> & ResultMethods<ALL>>;
+};
+
+/**
+ * Wrap an enum's `_` utilities so parsed and revived values are rebuilt by
+ * `rebuild`. Used by `Result` / `Option` so hydrated variants keep their
+ * `Ok` / `Err` / `Some` / `None` methods, and `_.impl` extends the right
+ * variant classes. `derive(keys)` builds the factories returned by `extend`,
+ * `pick` and `omit`, so derived enums keep those methods too.
+ */
+function withHydration(
+	base: EnumProperties<any, any, any>,
+	rebuild: (tag: string, data: unknown) => unknown,
+	impl: (methods: object) => unknown,
+	derive: (keys: string[]) => unknown
+): any {
+	const parse = (json: any) => {
+		const v = base.parse(json);
+		return rebuild(v.tag, v.data);
+	};
+	const _ = {
+		...base,
+		parse,
+		fromJSON: parse,
+		reviver(obj: unknown) {
+			const v = base.reviver(obj);
+			return v !== obj && v instanceof VariantBase ? rebuild(v.tag, v.data) : v;
+		},
+		impl,
+		widen: (v: AnyVariant) => rebuild(v.tag, v.data),
+		narrow: (v: AnyVariant) => base.narrow(v).map((n: AnyVariant) => rebuild(n.tag, n.data)),
+		extend(more?: string[]) {
+			if (!more?.length) {
+				throw new IronEnumDefinitionError("KEYS_REQUIRED", "extend() on a factory with 'keys' needs the new variants' keys");
+			}
+			return derive([...base.keys, ...more]);
+		},
+		pick: (list: readonly string[]) => derive([...list]),
+		omit: (list: readonly string[]) => derive(base.keys.filter((k: string) => !list.includes(k))),
+	};
+	factoryCodecs.set(_, factoryCodecs.get(base)!);
+	factoryKeys.set(_, base.keys);
+	factoryLineage.set(_, factoryLineage.get(base)!);
+	return _;
+}
+
+/**
+ * Build a keyed factory whose variants are instances of `classes[tag]`
+ * (extended with `methods`); tags without a class get plain variants. Backs
+ * `Result` / `Option` factories and the enums derived from them.
+ */
+function hydratedFactory(
+	keys: string[],
+	name: string | undefined,
+	classes: Record<string, VariantClass>,
+	methods: readonly object[],
+	lineage?: object
+): any {
+	const base = buildEnum<any>({ keys, name }, [], lineage);
+	const own: Record<string, VariantClass> = {};
+	for (const tag of keys) {
+		const Class = classes[tag] ?? VariantBase;
+		own[tag] = methods.length || !classes[tag] ? extendVariant(Class, methods) : Class;
+	}
+	const factory: any = {
+		_: withHydration(
+			base._,
+			(tag, data) => factory[tag](data),
+			(more) => hydratedFactory(keys, name, classes, [...methods, more], factoryLineage.get(base._)),
+			(derived) => hydratedFactory(derived, undefined, classes, [])
+		),
+	};
+	for (const tag of keys) factory[tag] = (data?: unknown) => new own[tag](tag, data, factory);
+	return factory;
+}
+
+/**
+ * Shared prototype for every `Ok` variant.
+ */
+class OkVariant extends VariantBase {
+	unwrap() {
+		return this.data;
+	}
+	unwrap_or() {
+		return this.data;
+	}
+	unwrap_or_else() {
+		return this.data;
+	}
+	isOk() {
+		return true;
+	}
+	isErr() {
+		return false;
+	}
+	ok() {
+		return Some(this.data);
+	}
+	map(f: (t: unknown) => unknown) {
+		return this.instance.Ok(f(this.data));
+	}
+	mapErr(_f: (e: unknown) => unknown) {
+		return this;
+	}
+	andThen(f: (t: unknown) => unknown) {
+		return f(this.data);
+	}
+	err() {
+		return None();
+	}
+	expect(_message: string) {
+		return this.data;
+	}
+	unwrapErr(): never {
+		throw new UnwrapError("UNWRAP_OK", "Called unwrapErr() on Result.Ok", this);
+	}
+	expectErr(message: string): never {
+		throw new UnwrapError("UNWRAP_OK", message, this);
+	}
+	and(other: unknown) {
+		return other;
+	}
+	or(_other: unknown) {
+		return this;
+	}
+	orElse(_f: (e: unknown) => unknown) {
+		return this;
+	}
+	mapOr(_fallback: unknown, f: (t: unknown) => unknown) {
+		return f(this.data);
+	}
+	mapOrElse(_fallback: (e: unknown) => unknown, f: (t: unknown) => unknown) {
+		return f(this.data);
+	}
+	inspect(f: (t: unknown) => void) {
+		f(this.data);
+		return this;
+	}
+	inspectErr(_f: (e: unknown) => void) {
+		return this;
+	}
+	isOkAnd(predicate: (t: unknown) => boolean) {
+		return predicate(this.data);
+	}
+	isErrAnd(_predicate: (e: unknown) => boolean) {
+		return false;
+	}
+	flatten() {
+		return this.data;
+	}
+	transpose() {
+		const inner = this.data as VariantBase;
+		return inner.tag === "Some" ? Some(this.instance.Ok(inner.data)) : None();
+	}
+	unwrapOrDefault() {
+		return this.data;
+	}
+	*iter() {
+		yield this.data;
+	}
+	*[Symbol.iterator]() {
+		return this.data;
+	}
+}
+
+/**
+ * Shared prototype for every `Err` variant.
+ */
+class ErrVariant extends VariantBase {
+	unwrap(): never {
+		const error = this.data;
+		if (error instanceof Error) throw error;
+		throw new UnwrapError("UNWRAP_ERR", `Called unwrap() on Result.Err: ${String(error)}`, this, error);
+	}
+	unwrap_or<R>(x: R) {
+		return x;
+	}
+	unwrap_or_else<R>(cb: () => R) {
+		return cb();
+	}
+	isOk() {
+		return false;
+	}
+	isErr() {
+		return true;
+	}
+	ok() {
+		return None();
+	}
+	map(_f: (t: unknown) => unknown) {
+		return this;
+	}
+	mapErr(f: (e: unknown) => unknown) {
+		return this.instance.Err(f(this.data));
+	}
+	andThen(_f: (t: unknown) => unknown) {
+		return this;
+	}
+	err() {
+		return Some(this.data);
+	}
+	expect(message: string): never {
+		const error = this.data;
+		const detail = error instanceof Error ? error.message : String(error);
+		throw new UnwrapError("UNWRAP_ERR", `${message}: ${detail}`, this, error);
+	}
+	unwrapErr() {
+		return this.data;
+	}
+	expectErr(_message: string) {
+		return this.data;
+	}
+	and(_other: unknown) {
+		return this;
+	}
+	or(other: unknown) {
+		return other;
+	}
+	orElse(f: (e: unknown) => unknown) {
+		return f(this.data);
+	}
+	mapOr(fallback: unknown, _f: (t: unknown) => unknown) {
+		return fallback;
+	}
+	mapOrElse(fallback: (e: unknown) => unknown, _f: (t: unknown) => unknown) {
+		return fallback(this.data);
+	}
+	inspect(_f: (t: unknown) => void) {
+		return this;
+	}
+	inspectErr(f: (e: unknown) => void) {
+		f(this.data);
+		return this;
+	}
+	isOkAnd(_predicate: (t: unknown) => boolean) {
+		return false;
+	}
+	isErrAnd(predicate: (e: unknown) => boolean) {
+		return predicate(this.data);
+	}
+	flatten() {
+		return this;
+	}
+	transpose() {
+		return Some(this);
+	}
+	unwrapOrDefault() {
+		return undefined;
+	}
+	*iter() {}
+	*[Symbol.iterator]() {
+		yield this;
+	}
+}
+
+/**
+ * Internal constructor for a typed Result factory.
+ *
+ * Builds a fresh factory; `Result<T, E>()` only calls this for named
+ * factories, and shares `SharedResult` otherwise. The variants themselves
+ * share the `OkVariant` / `ErrVariant` prototypes.
+ */
+const ResultInternal = <T, E>(
+	name?: string,
+	methods: readonly object[] = []
+): ResultFactory<{ Ok: T; Err: E }> => {
+	return hydratedFactory(["Ok", "Err"], name, { Ok: OkVariant, Err: ErrVariant }, methods);
+};
+
+/** Factory backing the free `Ok` / `Err` helpers; types are erased at runtime. */
+const SharedResult = ResultInternal<any, any>();
+
+/** Structural shape accepted by the `Result.*` collection combinators. */
+type AnyResult = { readonly tag: "Ok" | "Err"; readonly data: unknown; isOk(): boolean };
+
+/** `Ok` payload type of a result variant (distributes over unions). */
+type OkOf<R> = R extends ResultVariant<infer A> ? A["Ok"] : never;
+
+/** `Err` payload type of a result variant (distributes over unions). */
+type ErrOf<R> = R extends ResultVariant<infer A> ? A["Err"] : never;
+
+/**
+ * Create a typed Result factory `<T,E>`.
+ *
+ * @example
+ * const StringResult = Result<string, Error>();
+ * const r1 = StringResult.Ok("hello");
+ *
+ * function process(r: typeof StringResult._.typeOf) {
+ * // ...
+ * }
+ *
+ * // Named, so it can be revived through an `EnumRegistry`
+ * const UserResult = Result<User, string>({ name: "UserResult" });
  */
-type ExtendedRustMethods<T> = {
-	/**
-	 * Return the success value.
-	 * **Throws** if the variant is `Err` or `None`.
-	 *
-	 * @example
-	 * Ok(1).unwrap(); // 1
-	 * Err("!").unwrap(); // Throws
-	 * None().unwrap(); // Throws
-	 */
-	unwrap(): T;
+export const Result: {
+	<T, E>(args?: { name?: string }): ResultFactory<{ Ok: T; Err: E }>;
 
 	/**
-	 * Return the success value or a provided default.
+	 * `Ok` of every value (tuple types are preserved), or the first `Err`.
 	 *
 	 * @example
-	 * Ok(1).unwrap_or(0); // 1
-	 * Err("!").unwrap_or(0); // 0
-	 * None().unwrap_or(0); // 0
+	 * Result.all([Ok(1), Ok("a")]); // Ok([1, "a"])
+	 * Result.all([Ok(1), Err("x"), Err("y")]); // Err("x")
 	 */
-	unwrap_or<R>(value: R): R | T;
+	all<RS extends readonly AnyResult[] | []>(
+		results: RS
+	): ResultVariant<{ Ok: { -readonly [K in keyof RS]: OkOf<RS[K]> }; Err: ErrOf<RS[number]> }>;
 
 	/**
-	 * Return the success value or the result of a fallback function.
-	 * The callback is only executed if needed.
+	 * Like `all`, but looks at every result and returns all errors instead of
+	 * stopping at the first one.
 	 *
 	 * @example
-	 * Ok(1).unwrap_or_else(() => 0); // 1
-	 * Err("!").unwrap_or_else(() => 0); // 0
-	 * None().unwrap_or_else(() => expensive_calc()); // 0
+	 * Result.allSettled([Ok(1), Err("x"), Err("y")]); // Err(["x", "y"])
 	 */
-	unwrap_or_else<R>(cb: () => R): R | T;
-};
+	allSettled<RS extends readonly AnyResult[] | []>(
+		results: RS
+	): ResultVariant<{ Ok: { -readonly [K in keyof RS]: OkOf<RS[K]> }; Err: ErrOf<RS[number]>[] }>;
+
+	/** Alias of `allSettled`. */
+	collectErrors<RS extends readonly AnyResult[] | []>(
+		results: RS
+	): ResultVariant<{ Ok: { -readonly [K in keyof RS]: OkOf<RS[K]> }; Err: ErrOf<RS[number]>[] }>;
 
-/**
- * Result-specific helpers for mapping and chaining.
- */
-type ResultMethods<ALL extends { Ok: unknown; Err: unknown }> = {
 	/**
-	 * Convert `Result<T,E>` to `Option<T>`, dropping the error.
+	 * Split results into `[okValues, errValues]`.
 	 *
 	 * @example
-	 * Ok(1).ok(); // Some(1)
-	 * Err("!").ok(); // None()
+	 * const [users, failures] = Result.partition(results);
 	 */
-	ok(): OptionVariant<{ Some: ALL["Ok"]; None: undefined }>;
+	partition<R extends AnyResult>(results: Iterable<R>): [OkOf<R>[], ErrOf<R>[]];
 
 	/**
-	 * Predicate for `Ok` variant.
+	 * The first `Ok`, or `Err` of every error (tuple types are preserved).
 	 *
 	 * @example
-	 * if (myResult.isOk()) { ... }
+	 * Result.any([Err("x"), Ok(2)]); // Ok(2)
+	 * Result.any([Err("x"), Err(1)]); // Err(["x", 1])
 	 */
-	isOk(): boolean;
+	any<RS extends readonly AnyResult[] | []>(
+		results: RS
+	): ResultVariant<{ Ok: OkOf<RS[number]>; Err: { -readonly [K in keyof RS]: ErrOf<RS[K]> } }>;
 
 	/**
-	 * Predicate for `Err` variant.
+	 * Collect an iterable of results into `Ok` of an array, stopping at the
+	 * first `Err`.
 	 *
 	 * @example
-	 * if (myResult.isErr()) { ... }
+	 * Result.collect(lines.map(parseLine)); // Result<Line[], ParseError>
 	 */
-	isErr(): boolean;
+	collect<R extends AnyResult>(results: Iterable<R>): ResultVariant<{ Ok: OkOf<R>[]; Err: ErrOf<R> }>;
 
 	/**
-	 * Map the `Ok` value, leaving `Err` untouched.
+	 * Map every item to a result and collect them, stopping (without calling
+	 * `fn` again) at the first `Err`.
 	 *
 	 * @example
-	 * Ok(1).map(x => x + 1); // Ok(2)
-	 * Err("!").map(x => x + 1); // Err("!")
+	 * Result.traverse(ids, (id) => loadUser(id)); // Result<User[], LoadError>
 	 */
-	map<U>(f: (t: ALL["Ok"]) => U): ResultVariant<{ Ok: U; Err: ALL["Err"] }>;
+	traverse<T, R extends AnyResult>(
+		items: Iterable<T>,
+		fn: (item: T, index: number) => R
+	): ResultVariant<{ Ok: OkOf<R>[]; Err: ErrOf<R> }>;
 
 	/**
-	 * Map the `Err` value, leaving `Ok` untouched.
+	 * Run a generator where `yield* result` works like Rust's `?`: it evaluates
+	 * to the `Ok` value, or stops the generator and returns the `Err`. The
+	 * return value is wrapped in `Ok`; the error type is the union of every
+	 * yielded result's error type.
 	 *
 	 * @example
-	 * Ok(1).mapErr(x => x + "!"); // Ok(1)
-	 * Err("!").mapErr(x => x + "!"); // Err("!!")
+	 * const r = Result.gen(function* () {
+	 *   const id = yield* parseId(input); // Err: ParseError
+	 *   const user = yield* loadUser(id); // Err: DbError
+	 *   return user.name;
+	 * }); // Result<string, ParseError | DbError>
 	 */
-	mapErr<F>(f: (e: ALL["Err"]) => F): ResultVariant<{ Ok: ALL["Ok"]; Err: F }>;
+	gen<Y extends AnyResult, T>(body: () => Generator<Y, T, any>): ResultVariant<{ Ok: T; Err: ErrOf<Y> }>;
 
 	/**
-	 * Chain a new `Result`-returning operation when `Ok`.
-	 * Also known as `flatMap`.
+	 * Async `Result.gen`. Inside the body, `yield*` also accepts `AsyncResult`s.
 	 *
 	 * @example
-	 * const safeDivide = (n: number) => n === 0 ? Err("div by 0") : Ok(10 / n);
-	 *
-	 * Ok(5).andThen(safeDivide); // Ok(2)
-	 * Ok(0).andThen(safeDivide); // Err("div by 0")
-	 * Err("!").andThen(safeDivide); // Err("!")
+	 * const r = Result.genAsync(async function* () {
+	 *   const user = yield* loadUserAsync(id);
+	 *   const team = yield* await fetchTeam(user.teamId);
+	 *   return { user, team };
+	 * }); // AsyncResult<{ user, team }, LoadError | FetchError>
 	 */
-	andThen<U>(
-		f: (t: ALL["Ok"]) => ResultVariant<{ Ok: U; Err: ALL["Err"] }>
-	): ResultVariant<{ Ok: U; Err: ALL["Err"] }>;
-};
-
-/**
- * A Result instance (Ok or Err) with extraction and mapping helpers.
- *
- * This type is invariant, meaning `Result<T, never>` is not assignable
- * to `Result<T, string>`.
- *
- * To accept `Result` in a function, either use a specific factory:
- * @example
- * const MyResult = Result<string, Error>();
- * function process(r: typeof MyResult._.typeOf) { ... }
- *
- * // Or make the function generic:
- * function process<T, E>(r: ResultVariant<{ Ok: T, Err: E }>) { ... }
- */
-export type ResultVariant<ALL extends { Ok: unknown; Err: unknown }> =
-	IronEnumVariant<keyof ALL & string, ALL[keyof ALL], ALL> &
-	ExtendedRustMethods<ALL["Ok"]> &
-	ResultMethods<ALL>;
-
-/**
- * Factory for creating Ok and Err variants plus metadata via `_`.
- *
- * @example
- * const R = Result<number, string>();
- * const r1 = R.Ok(1);
- * const r2 = R.Err("nope");
- */
-export type ResultFactory<ALL extends { Ok: unknown; Err: unknown }> = {
-    Ok(data: ALL["Ok"]): IronEnumVariant<"Ok", ALL["Ok"], ALL> & ExtendedRustMethods<ALL["Ok"]> & ResultMethods<ALL>;
-    Err(data: ALL["Err"]): IronEnumVariant<"Err", ALL["Err"], ALL> & ExtendedRustMethods<ALL["Ok"]> & ResultMethods<ALL>;
-    _: EnumProperties<ALL, ExtendedRustMethods<ALL["Ok"]> & ResultMethods<ALL>>;
-};
-
-/**
- * Internal constructor for a typed Result factory.
- *
- * A fresh factory is produced per `<T,E>` instantiation to preserve
- * factory identity and allow future per-type runtime extensibility.
- */
-const ResultInternal = <T, E>(): ResultFactory<{ Ok: T; Err: E }> => {
-	const R = IronEnum<{ Ok: T; Err: E }>({ keys: ["Err", "Ok"] });
-
-	const OkCtor = (value: T) => {
-		const base = (R as any).Ok(value);
-
-		return Object.assign(base, {
-			unwrap: () => value,
-			unwrap_or: () => value,
-			unwrap_or_else: () => value,
-			isOk: () => true,
-			isErr: () => false,
-			ok: () => Option<T>().Some(value),
-			map<U>(f: (t: T) => U) {
-				return Result<U, E>().Ok(f(value)) as any;
-			},
-			mapErr<F>(_f: (e: E) => F) {
-				return Result<T, F>().Ok(value) as any;
-			},
-			andThen<U>(f: (t: T) => ResultVariant<{ Ok: U; Err: E }>) {
-				return f(value) as any;
-			},
-		});
-	};
-
-	const ErrCtor = (error: E) => {
-		const base = (R as any).Err(error);
-
-		return Object.assign(base, {
-			unwrap: () => {
-				throw error instanceof Error ? error : new Error(String(error ?? "Err"));
-			},
-			unwrap_or: <R>(x: R) => x,
-			unwrap_or_else: <R>(cb: () => R) => cb(),
-			isOk: () => false,
-			isErr: () => true,
-			ok: () => Option<T>().None(),
-			map<U>(_f: (t: T) => U) {
-				return Result<U, E>().Err(error) as any;
-			},
-			mapErr<F>(f: (e: E) => F) {
-				return Result<T, F>().Err(f(error)) as any;
-			},
-			andThen<U>(_f: (t: T) => ResultVariant<{ Ok: U; Err: E }>) {
-				return Result<U, E>().Err(error) as any;
-			},
-		});
-	};
-
-	return { _: (R._ as any), Ok: OkCtor, Err: ErrCtor };
-};
-
-/**
- * Create a typed Result factory `<T,E>`.
- *
- * @example
- * const StringResult = Result<string, Error>();
- * const r1 = StringResult.Ok("hello");
- *
- * function process(r: typeof StringResult._.typeOf) {
- * // ...
- * }
- */
-export const Result: <T, E>() => ResultFactory<{ Ok: T; Err: E }> = <T, E>() =>
-	ResultInternal<T, E>();
+	genAsync<Y extends AnyResult, T>(body: () => AsyncGenerator<Y, T, any>): AsyncResult<T, ErrOf<Y>>;
+} = Object.assign(<T, E>(args?: { name?: string }) => (args?.name ? ResultInternal<T, E>(args.name) : SharedResult), {
+	all: (results: readonly AnyResult[]) => Result.traverse(results, (r) => r) as any,
+	allSettled: (results: readonly AnyResult[]) => {
+		const [values, errors] = Result.partition(results);
+		return (errors.length ? SharedResult.Err(errors) : SharedResult.Ok(values)) as any;
+	},
+	collectErrors: (results: readonly AnyResult[]) => Result.allSettled(results) as any,
+	partition: (results: Iterable<AnyResult>) => {
+		const values: unknown[] = [];
+		const errors: unknown[] = [];
+		for (const r of results) (r.tag === "Ok" ? values : errors).push(r.data);
+		return [values, errors] as any;
+	},
+	any: (results: readonly AnyResult[]) => {
+		const errors: unknown[] = [];
+		for (const r of results) {
+			if (r.tag === "Ok") return r as any;
+			errors.push(r.data);
+		}
+		return SharedResult.Err(errors) as any;
+	},
+	collect: (results: Iterable<AnyResult>) => Result.traverse(results, (r) => r) as any,
+	traverse: <T>(items: Iterable<T>, fn: (item: T, index: number) => AnyResult) => {
+		const values: unknown[] = [];
+		let index = 0;
+		for (const item of items) {
+			const r = fn(item, index++);
+			if (r.tag === "Err") return r as any;
+			values.push(r.data);
+		}
+		return SharedResult.Ok(values) as any;
+	},
+	gen: (body: () => Generator<AnyResult, unknown, any>) => {
+		const it = body();
+		// A bare `yield` of an `Ok` evaluates to its value, like `yield*`.
+		for (let step = it.next(); ; step = it.next(step.value.data)) {
+			if (step.done) return SharedResult.Ok(step.value) as any;
+			if (step.value.tag === "Err") {
+				// Stop here, letting `finally` blocks run.
+				it.return(undefined);
+				return step.value as any;
+			}
+		}
+	},
+	genAsync: (body: () => AsyncGenerator<AnyResult, unknown, any>) =>
+		new AsyncResult(
+			(async () => {
+				const it = body();
+				for (let step = await it.next(); ; step = await it.next(step.value.data)) {
+					if (step.done) return SharedResult.Ok(step.value) as any;
+					if (step.value.tag === "Err") {
+						await it.return(undefined);
+						return step.value as any;
+					}
+				}
+			})()
+		) as any,
+});
 
 /**
  * Convenience Ok constructor for ad-hoc success values.
- * The `Err` type is `never`.
+ * The `Err` type is `never`, unless inferred from an expected return type.
  *
  * @example
  * const r = Ok(123); // ResultVariant<{ Ok: number, Err: never }>
+ *
+ * function parse(s: string): ResultVariant<{ Ok: number; Err: string }> {
+ *   return s ? Ok(Number(s)) : Err("empty");
+ * }
  */
-export const Ok: <T>(value: T) => ResultVariant<{ Ok: T; Err: never }> = <T>(value: T) =>
-	Result<T, never>().Ok(value);
+export const Ok: <T, E = never>(value: T) => ResultVariant<{ Ok: T; Err: E }> = <T>(value: T) =>
+	SharedResult.Ok(value) as any;
 
 /**
  * Convenience Err constructor for ad-hoc error values.
- * The `Ok` type is `never`.
+ * The `Ok` type is `never`, unless inferred from an expected return type.
  *
  * @example
  * const r = Err("oops"); // ResultVariant<{ Ok: never, Err: string }>
  */
-export const Err: <E>(error: E) => ResultVariant<{ Ok: never; Err: E }> = <E>(error: E) =>
-	Result<never, E>().Err(error);
+export const Err: <E, T = never>(error: E) => ResultVariant<{ Ok: T; Err: E }> = <E>(error: E) =>
+	SharedResult.Err(error) as any;
 
 /* =============================================================================
  * Option Type (Rust-style nullable values)
@@ -929,73 +3610,249 @@ export const Err: <E>(error: E) => ResultVariant<{ Ok: never; Err: E }> = <E>(er
  */
 type OptionMethods<OK> = {
 	/**
-	 * Convert `Some(T)` to `Ok(T)` or `None` to `Err(E)`.
+	 * Convert `Some(T)` to `Ok(T)` or `None` to `Err(E)`.
+	 *
+	 * @example
+	 * Some(1).ok_or("!"); // Ok(1)
+	 * None().ok_or("!"); // Err("!")
+	 */
+	ok_or<E>(err: E): ResultVariant<{ Ok: OK; Err: E }>;
+
+	/**
+	 * Convert `Some(T)` to `Ok(T)` or `None` to `Err(E)`
+	 * using a lazily-computed error.
+	 *
+	 * @example
+	 * Some(1).ok_or_else(() => "!"); // Ok(1)
+	 * None().ok_or_else(() => "!"); // Err("!")
+	 */
+	ok_or_else<E>(err: () => E): ResultVariant<{ Ok: OK; Err: E }>;
+
+	/**
+	 * Predicate for `Some` variant.
+	 *
+	 * @example
+	 * if (myOption.isSome()) { ... }
+	 */
+	isSome(): boolean;
+
+	/**
+	 * Predicate for `None` variant.
+	 *
+	 * @example
+	 * if (myOption.isNone()) { ... }
+	 */
+	isNone(): boolean;
+
+	/**
+	 * Map the `Some` value, leaving `None` untouched.
+	 *
+	 * @example
+	 * Some(1).map(x => x + 1); // Some(2)
+	 * None().map(x => x + 1); // None()
+	 */
+	map<U>(f: (t: OK) => U): OptionVariant<{ Some: U; None: undefined }>;
+
+	/**
+	 * Chain a new `Option`-returning operation when `Some`.
+	 * Also known as `flatMap`.
+	 *
+	 * @example
+	 * const firstChar = (s: string) => s.length > 0 ? Some(s[0]) : None();
+	 *
+	 * Some("hi").andThen(firstChar); // Some("h")
+	 * Some("").andThen(firstChar); // None()
+	 * None().andThen(firstChar); // None()
+	 */
+	andThen<U>(
+		f: (t: OK) => OptionVariant<{ Some: U; None: undefined }>
+	): OptionVariant<{ Some: U; None: undefined }>;
+
+	/**
+	 * Keep `Some` only when the predicate passes.
+	 *
+	 * @example
+	 * Some(2).filter(x => x % 2 === 0); // Some(2)
+	 * Some(1).filter(x => x % 2 === 0); // None()
+	 * None().filter(x => x % 2 === 0); // None()
+	 */
+	filter(p: (t: OK) => boolean): OptionVariant<{ Some: OK; None: undefined }>;
+
+	/**
+	 * Return the `Some` value, or throw an `UnwrapError` with `message`.
+	 *
+	 * @example
+	 * users.get(id).expect("user must be loaded");
+	 */
+	expect(message: string): OK;
+
+	/**
+	 * Return `other` if this is `Some`, otherwise this `None`.
+	 *
+	 * @example
+	 * Some(1).and(Some("a")); // Some("a")
+	 */
+	and<U>(other: OptionVariant<{ Some: U; None: undefined }>): OptionVariant<{ Some: U; None: undefined }>;
+
+	/**
+	 * Return this if it is `Some`, otherwise `other`.
+	 *
+	 * @example
+	 * None().or(Some(2)); // Some(2)
+	 */
+	or<O extends AnyOption>(other: O): OptionVariant<{ Some: OK | SomeOf<O>; None: undefined }>;
+
+	/**
+	 * Return this if it is `Some`, otherwise the option computed by `f`.
+	 *
+	 * @example
+	 * fromCache(key).orElse(() => fromDisk(key));
+	 */
+	orElse<O extends AnyOption>(f: () => O): OptionVariant<{ Some: OK | SomeOf<O>; None: undefined }>;
+
+	/**
+	 * `Some` when exactly one of this and `other` is `Some`, otherwise `None`.
+	 *
+	 * @example
+	 * Some(1).xor(None()); // Some(1)
+	 * Some(1).xor(Some(2)); // None()
+	 */
+	xor<O extends AnyOption>(other: O): OptionVariant<{ Some: OK | SomeOf<O>; None: undefined }>;
+
+	/**
+	 * Pair two `Some` values, or `None` if either is `None`.
+	 *
+	 * @example
+	 * Some(1).zip(Some("a")); // Some([1, "a"])
+	 */
+	zip<U>(other: OptionVariant<{ Some: U; None: undefined }>): OptionVariant<{ Some: [OK, U]; None: undefined }>;
+
+	/**
+	 * Split an option of a pair into a pair of options.
+	 *
+	 * @example
+	 * Some([1, "a"]).unzip(); // [Some(1), Some("a")]
+	 * None().unzip(); // [None(), None()]
+	 */
+	unzip(): OK extends readonly [infer A, infer B]
+		? [OptionVariant<{ Some: A; None: undefined }>, OptionVariant<{ Some: B; None: undefined }>]
+		: never;
+
+	/**
+	 * Map the `Some` value, or return `fallback` for `None`.
+	 *
+	 * @example
+	 * Some(2).mapOr(0, (x) => x * 2); // 4
+	 */
+	mapOr<U>(fallback: U, f: (t: OK) => U): U;
+
+	/**
+	 * Map the `Some` value, or compute a fallback for `None`.
+	 *
+	 * @example
+	 * name.mapOrElse(() => "anonymous", (n) => n.toUpperCase());
+	 */
+	mapOrElse<U>(fallback: () => U, f: (t: OK) => U): U;
+
+	/**
+	 * Call `f` with the `Some` value and return the option unchanged.
+	 *
+	 * @example
+	 * find(id).inspect((u) => console.log("found", u));
+	 */
+	inspect(f: (t: OK) => void): OptionVariant<{ Some: OK; None: undefined }>;
+
+	/**
+	 * `true` when this is `Some` and its value satisfies `predicate`.
+	 *
+	 * @example
+	 * Some(3).isSomeAnd((x) => x > 2); // true
+	 */
+	isSomeAnd(predicate: (t: OK) => boolean): boolean;
+
+	/**
+	 * `true` when this is `None`, or `Some` with a value satisfying `predicate`.
 	 *
 	 * @example
-	 * Some(1).ok_or("!"); // Ok(1)
-	 * None().ok_or("!"); // Err("!")
+	 * None().isNoneOr((x) => x > 2); // true
 	 */
-	ok_or<E>(err: E): ResultVariant<{ Ok: OK; Err: E }>;
+	isNoneOr(predicate: (t: OK) => boolean): boolean;
 
 	/**
-	 * Convert `Some(T)` to `Ok(T)` or `None` to `Err(E)`
-	 * using a lazily-computed error.
+	 * Remove one level of nesting from `Option<Option<T>>`.
 	 *
 	 * @example
-	 * Some(1).ok_or_else(() => "!"); // Ok(1)
-	 * None().ok_or_else(() => "!"); // Err("!")
+	 * Some(Some(1)).flatten(); // Some(1)
 	 */
-	ok_or_else<E>(err: () => E): ResultVariant<{ Ok: OK; Err: E }>;
+	flatten(): OK extends OptionVariant<infer I>
+		? OptionVariant<{ Some: I["Some"]; None: undefined }>
+		: never;
 
 	/**
-	 * Predicate for `Some` variant.
+	 * Turn `Option<Result<T,E>>` into `Result<Option<T>,E>`.
 	 *
 	 * @example
-	 * if (myOption.isSome()) { ... }
+	 * Some(Ok(1)).transpose(); // Ok(Some(1))
+	 * Some(Err("!")).transpose(); // Err("!")
+	 * None().transpose(); // Ok(None())
 	 */
-	isSome(): boolean;
+	transpose(): OK extends ResultVariant<infer R>
+		? ResultVariant<{ Ok: OptionVariant<{ Some: R["Ok"]; None: undefined }>; Err: R["Err"] }>
+		: never;
 
 	/**
-	 * Predicate for `None` variant.
+	 * Return the `Some` value, or `undefined` for `None` (see
+	 * `Result.unwrapOrDefault`).
+	 */
+	unwrapOrDefault(): OK | undefined;
+
+	/**
+	 * Return the `Some` value, or `null` for `None`. The inverse of
+	 * `Option.fromNullable`.
 	 *
 	 * @example
-	 * if (myOption.isNone()) { ... }
+	 * const email: string | null = user.email.toNullable();
 	 */
-	isNone(): boolean;
+	toNullable(): OK | null;
 
 	/**
-	 * Map the `Some` value, leaving `None` untouched.
+	 * Variants are immutable, so where Rust's `take` empties the option in
+	 * place, this returns `[taken, None]`.
 	 *
 	 * @example
-	 * Some(1).map(x => x + 1); // Some(2)
-	 * None().map(x => x + 1); // None()
+	 * const [job, rest] = slot.take();
 	 */
-	map<U>(f: (t: OK) => U): OptionVariant<{ Some: U; None: undefined }>;
+	take(): [OptionVariant<{ Some: OK; None: undefined }>, OptionVariant<{ Some: OK; None: undefined }>];
 
 	/**
-	 * Chain a new `Option`-returning operation when `Some`.
-	 * Also known as `flatMap`.
+	 * Returns `[previous, Some(value)]`, the immutable counterpart of Rust's
+	 * `replace`.
 	 *
 	 * @example
-	 * const firstChar = (s: string) => s.length > 0 ? Some(s[0]) : None();
+	 * const [old, current] = slot.replace(next);
+	 */
+	replace(value: OK): [OptionVariant<{ Some: OK; None: undefined }>, OptionVariant<{ Some: OK; None: undefined }>];
+
+	/**
+	 * Returns `[value, option]`: the `Some` value (computing and inserting it
+	 * with `f` if this is `None`) and the option that now holds it.
 	 *
-	 * Some("hi").andThen(firstChar); // Some("h")
-	 * Some("").andThen(firstChar); // None()
-	 * None().andThen(firstChar); // None()
+	 * @example
+	 * const [conn, cached] = cache.getOrInsertWith(() => connect());
 	 */
-	andThen<U>(
-		f: (t: OK) => OptionVariant<{ Some: U; None: undefined }>
-	): OptionVariant<{ Some: U; None: undefined }>;
+	getOrInsertWith(f: () => OK): [OK, OptionVariant<{ Some: OK; None: undefined }>];
 
 	/**
-	 * Keep `Some` only when the predicate passes.
+	 * Early-return protocol for `Option.gen`: `yield* option` evaluates to the
+	 * `Some` value, or makes `Option.gen` return `None`.
 	 *
 	 * @example
-	 * Some(2).filter(x => x % 2 === 0); // Some(2)
-	 * Some(1).filter(x => x % 2 === 0); // None()
-	 * None().filter(x => x % 2 === 0); // None()
+	 * Option.gen(function* () {
+	 *   const user = yield* findUser(id);
+	 *   return yield* user.email;
+	 * });
 	 */
-	filter(p: (t: OK) => boolean): OptionVariant<{ Some: OK; None: undefined }>;
+	[Symbol.iterator](): Generator<OptionVariant<{ Some: never; None: undefined }>, OK, unknown>;
 };
 
 /**
@@ -1023,70 +3880,220 @@ export type OptionFactory<ALL extends { Some: unknown; None: undefined }> = {
 };
 
 /**
- * Internal constructor for a typed Option factory.
+ * Shared prototype for every `Some` variant.
  */
-const OptionInternal = <T>(): OptionFactory<{ Some: T; None: undefined }> => {
-	const O = IronEnum<{ Some: T; None: undefined }>({ keys: ["None", "Some"] });
-
-	const SomeCtor = (value: T) => {
-		const base = (O as any).Some(value);
+class SomeVariant extends VariantBase {
+	isSome() {
+		return true;
+	}
+	isNone() {
+		return false;
+	}
+	unwrap() {
+		return this.data;
+	}
+	unwrap_or() {
+		return this.data;
+	}
+	unwrap_or_else() {
+		return this.data;
+	}
+	ok_or(_err: unknown) {
+		return Ok(this.data);
+	}
+	ok_or_else(_errFn: () => unknown) {
+		return Ok(this.data);
+	}
+	map(f: (t: unknown) => unknown) {
+		return this.instance.Some(f(this.data));
+	}
+	andThen(f: (t: unknown) => unknown) {
+		return f(this.data);
+	}
+	filter(p: (t: unknown) => boolean) {
+		return p(this.data) ? this : this.instance.None();
+	}
+	expect(_message: string) {
+		return this.data;
+	}
+	and(other: unknown) {
+		return other;
+	}
+	or(_other: unknown) {
+		return this;
+	}
+	orElse(_f: () => unknown) {
+		return this;
+	}
+	xor(other: VariantBase) {
+		return other.tag === "Some" ? this.instance.None() : this;
+	}
+	zip(other: VariantBase) {
+		return other.tag === "Some" ? Some([this.data, other.data]) : None();
+	}
+	unzip() {
+		const [a, b] = this.data as [unknown, unknown];
+		return [Some(a), Some(b)];
+	}
+	mapOr(_fallback: unknown, f: (t: unknown) => unknown) {
+		return f(this.data);
+	}
+	mapOrElse(_fallback: () => unknown, f: (t: unknown) => unknown) {
+		return f(this.data);
+	}
+	inspect(f: (t: unknown) => void) {
+		f(this.data);
+		return this;
+	}
+	isSomeAnd(predicate: (t: unknown) => boolean) {
+		return predicate(this.data);
+	}
+	isNoneOr(predicate: (t: unknown) => boolean) {
+		return predicate(this.data);
+	}
+	flatten() {
+		return this.data;
+	}
+	transpose() {
+		const inner = this.data as VariantBase;
+		return inner.tag === "Ok" ? Ok(this.instance.Some(inner.data)) : inner;
+	}
+	unwrapOrDefault() {
+		return this.data;
+	}
+	toNullable() {
+		return this.data;
+	}
+	take() {
+		return [this, this.instance.None()];
+	}
+	replace(value: unknown) {
+		return [this, this.instance.Some(value)];
+	}
+	getOrInsertWith(_f: () => unknown) {
+		return [this.data, this];
+	}
+	*[Symbol.iterator]() {
+		return this.data;
+	}
+}
 
-		return Object.assign(base, {
-			isSome: () => true,
-			isNone: () => false,
-			unwrap: () => value,
-			unwrap_or: () => value,
-			unwrap_or_else: () => value,
-			ok_or<E>(_err: E) {
-				return Result<T, E>().Ok(value);
-			},
-			ok_or_else<E>(_errFn: () => E) {
-				return Result<T, E>().Ok(value);
-			},
-			map<U>(f: (t: T) => U) {
-				return Option<U>().Some(f(value)) as any;
-			},
-			andThen<U>(f: (t: T) => OptionVariant<{ Some: U; None: undefined }>) {
-				return f(value) as any;
-			},
-			filter(p: (t: T) => boolean) {
-				return p(value) ? Option<T>().Some(value) : Option<T>().None();
-			},
-		});
-	};
+/**
+ * Shared prototype for every `None` variant.
+ */
+class NoneVariant extends VariantBase {
+	isSome() {
+		return false;
+	}
+	isNone() {
+		return true;
+	}
+	unwrap(): never {
+		throw new UnwrapError("UNWRAP_NONE", "Called unwrap() on Option.None", this);
+	}
+	unwrap_or<R>(x: R) {
+		return x;
+	}
+	unwrap_or_else<R>(cb: () => R) {
+		return cb();
+	}
+	ok_or(err: unknown) {
+		return Err(err);
+	}
+	ok_or_else(errFn: () => unknown) {
+		return Err(errFn());
+	}
+	map(_f: (t: unknown) => unknown) {
+		return this;
+	}
+	andThen(_f: (t: unknown) => unknown) {
+		return this;
+	}
+	filter(_p: (t: unknown) => boolean) {
+		return this;
+	}
+	expect(message: string): never {
+		throw new UnwrapError("UNWRAP_NONE", message, this);
+	}
+	and(_other: unknown) {
+		return this;
+	}
+	or(other: unknown) {
+		return other;
+	}
+	orElse(f: () => unknown) {
+		return f();
+	}
+	xor(other: unknown) {
+		return other;
+	}
+	zip(_other: unknown) {
+		return this;
+	}
+	unzip() {
+		return [None(), None()];
+	}
+	mapOr(fallback: unknown, _f: (t: unknown) => unknown) {
+		return fallback;
+	}
+	mapOrElse(fallback: () => unknown, _f: (t: unknown) => unknown) {
+		return fallback();
+	}
+	inspect(_f: (t: unknown) => void) {
+		return this;
+	}
+	isSomeAnd(_predicate: (t: unknown) => boolean) {
+		return false;
+	}
+	isNoneOr(_predicate: (t: unknown) => boolean) {
+		return true;
+	}
+	flatten() {
+		return this;
+	}
+	transpose() {
+		return Ok(this);
+	}
+	unwrapOrDefault() {
+		return undefined;
+	}
+	toNullable() {
+		return null;
+	}
+	take() {
+		return [this, this];
+	}
+	replace(value: unknown) {
+		return [this, this.instance.Some(value)];
+	}
+	getOrInsertWith(f: () => unknown) {
+		const value = f();
+		return [value, this.instance.Some(value)];
+	}
+	*[Symbol.iterator]() {
+		yield this;
+	}
+}
 
-	const NoneCtor = () => {
-		const base = (O as any).None();
+/**
+ * Internal constructor for a typed Option factory. `Option<T>()` only calls
+ * this for named factories, and shares `SharedOption` otherwise.
+ */
+const OptionInternal = <T>(
+	name?: string,
+	methods: readonly object[] = []
+): OptionFactory<{ Some: T; None: undefined }> => {
+	return hydratedFactory(["None", "Some"], name, { None: NoneVariant, Some: SomeVariant }, methods);
+};
 
-		return Object.assign(base, {
-			isSome: () => false,
-			isNone: () => true,
-			unwrap: () => {
-				throw new Error("Called unwrap() on Option.None");
-			},
-			unwrap_or: <R>(x: R) => x,
-			unwrap_or_else: <R>(cb: () => R) => cb(),
-			ok_or<E>(err: E) {
-				return Result<T, E>().Err(err);
-			},
-			ok_or_else<E>(errFn: () => E) {
-				return Result<T, E>().Err(errFn());
-			},
-			map<U>(_f: (t: T) => U) {
-				return Option<U>().None();
-			},
-			andThen<U>(_f: (t: T) => OptionVariant<{ Some: U; None: undefined }>) {
-				return Option<U>().None();
-			},
-			filter(_p: (t: T) => boolean) {
-				return Option<T>().None();
-			},
-		});
-	};
+/** Factory backing the free `Some` / `None` helpers; types are erased at runtime. */
+const SharedOption = OptionInternal<any>();
 
-	return { _: (O._ as any), Some: SomeCtor, None: NoneCtor };
-};
+/** Structural shape accepted by the `Option.*` collection combinators. */
+type AnyOption = { readonly tag: "Some" | "None"; readonly data: unknown; isSome(): boolean };
 
+/** `Some` payload type of an option variant (distributes over unions). */
+type SomeOf<O> = O extends OptionVariant<infer A> ? A["Some"] : never;
 
 /**
  * Create a typed Option factory `<T>`.
@@ -1098,9 +4105,119 @@ const OptionInternal = <T>(): OptionFactory<{ Some: T; None: undefined }> => {
  * function process(o: typeof NumberOption._.typeOf) {
  * // ...
  * }
+ *
+ * // Named, so it can be revived through an `EnumRegistry`
+ * const MaybeUser = Option<User>({ name: "MaybeUser" });
  */
-export const Option: <T>() => OptionFactory<{ Some: T; None: undefined }> = <T>() =>
-	OptionInternal<T>();
+export const Option: {
+	<T>(args?: { name?: string }): OptionFactory<{ Some: T; None: undefined }>;
+
+	/**
+	 * Bridge from nullable values: `Some(value)` unless it is `null` or `undefined`.
+	 *
+	 * @example
+	 * Option.fromNullable(map.get(key)); // Some(v) or None()
+	 */
+	fromNullable<T>(value: T | null | undefined): OptionVariant<{ Some: T; None: undefined }>;
+
+	/**
+	 * `Some` of every value (tuple types are preserved), or `None` if any
+	 * option is `None`.
+	 *
+	 * @example
+	 * Option.all([Some(1), Some("a")]); // Some([1, "a"])
+	 */
+	all<OS extends readonly AnyOption[] | []>(
+		options: OS
+	): OptionVariant<{ Some: { -readonly [K in keyof OS]: SomeOf<OS[K]> }; None: undefined }>;
+
+	/**
+	 * The values of every `Some`, skipping `None`s.
+	 *
+	 * @example
+	 * Option.values([Some(1), None(), Some(3)]); // [1, 3]
+	 */
+	values<O extends AnyOption>(options: Iterable<O>): SomeOf<O>[];
+
+	/**
+	 * The first `Some`, or `None` if there is none.
+	 *
+	 * @example
+	 * Option.firstSome([fromEnv(), fromFile(), fromDefaults()]);
+	 */
+	firstSome<O extends AnyOption>(options: Iterable<O>): OptionVariant<{ Some: SomeOf<O>; None: undefined }>;
+
+	/**
+	 * Run a generator where `yield* option` evaluates to the `Some` value, or
+	 * stops the generator and returns `None`. The return value is wrapped in
+	 * `Some`.
+	 *
+	 * @example
+	 * const city = Option.gen(function* () {
+	 *   const user = yield* findUser(id);
+	 *   const address = yield* user.address;
+	 *   return address.city;
+	 * });
+	 */
+	gen<Y extends AnyOption, T>(body: () => Generator<Y, T, any>): OptionVariant<{ Some: T; None: undefined }>;
+
+	/**
+	 * Async `Option.gen`. Unlike `Result.genAsync`, which returns an
+	 * `AsyncResult`, this returns a plain promise: there is no async `Option`
+	 * wrapper to chain on.
+	 *
+	 * @example
+	 * const city = await Option.genAsync(async function* () {
+	 *   const user = yield* await findUserAsync(id);
+	 *   return user.city;
+	 * });
+	 */
+	genAsync<Y extends AnyOption, T>(
+		body: () => AsyncGenerator<Y, T, any>
+	): Promise<OptionVariant<{ Some: T; None: undefined }>>;
+} = Object.assign(<T>(args?: { name?: string }) => (args?.name ? OptionInternal<T>(args.name) : SharedOption), {
+	fromNullable: <T>(value: T | null | undefined) =>
+		(value === null || value === undefined ? SharedOption.None() : SharedOption.Some(value)) as any,
+	all: (options: readonly AnyOption[]) => {
+		const values: unknown[] = [];
+		for (const o of options) {
+			if (o.tag === "None") return SharedOption.None() as any;
+			values.push(o.data);
+		}
+		return SharedOption.Some(values) as any;
+	},
+	values: (options: Iterable<AnyOption>) => {
+		const values: unknown[] = [];
+		for (const o of options) if (o.tag === "Some") values.push(o.data);
+		return values as any;
+	},
+	firstSome: (options: Iterable<AnyOption>) => {
+		for (const o of options) if (o.tag === "Some") return o as any;
+		return SharedOption.None() as any;
+	},
+	gen: (body: () => Generator<AnyOption, unknown, any>) => {
+		const it = body();
+		// A bare `yield` of a `Some` evaluates to its value, like `yield*`.
+		for (let step = it.next(); ; step = it.next(step.value.data)) {
+			if (step.done) return SharedOption.Some(step.value) as any;
+			if (step.value.tag === "None") {
+				// Stop here, letting `finally` blocks run.
+				it.return(undefined);
+				return SharedOption.None() as any;
+			}
+		}
+	},
+	genAsync: async (body: () => AsyncGenerator<AnyOption, unknown, any>) => {
+		const it = body();
+		for (let step = await it.next(); ; step = await it.next(step.value.data)) {
+			if (step.done) return SharedOption.Some(step.value) as any;
+			if (step.value.tag === "None") {
+				await it.return(undefined);
+				return SharedOption.None() as any;
+			}
+		}
+	},
+});
 
 /**
  * Convenience Some constructor for ad-hoc values.
@@ -1110,7 +4227,7 @@ export const Option: <T>() => OptionFactory<{ Some: T; None: undefined }> = <T>(
  */
 export const Some: <T>(value: T) => OptionVariant<{ Some: T; None: undefined }> = <T>(
 	value: T
-) => Option<T>().Some(value);
+) => SharedOption.Some(value) as any;
 
 /**
  * Convenience None constructor.
@@ -1120,7 +4237,7 @@ export const Some: <T>(value: T) => OptionVariant<{ Some: T; None: undefined }>
  * const n = None(); // OptionVariant<{ Some: never, ... }>
  */
 export const None: () => OptionVariant<{ Some: never; None: undefined }> = () =>
-	Option<never>().None();
+	SharedOption.None() as any;
 
 /* =============================================================================
  * Try / TryInto Utilities
@@ -1155,14 +4272,11 @@ export const Try: {
 	 * const r3 = Try.sync(() => JSON.parse('{"a":1}')); // Ok({ a: 1 })
 	 */
 	sync<X>(cb: () => X): ResultVariant<{ Ok: X; Err: unknown }> {
-		// Create a single factory for this function's return type
-		const R = Result<X, unknown>();
+		// Types are erased at runtime, so the shared factory serves every call.
 		try {
-			// Use the local factory's .Ok
-			return R.Ok(cb());
+			return SharedResult.Ok(cb()) as any;
 		} catch (e) {
-			// Use the local factory's .Err
-			return R.Err(e);
+			return SharedResult.Err(e) as any;
 		}
 	},
 
@@ -1178,14 +4292,10 @@ export const Try: {
 	 * const r2 = await Try.async(() => fetch("/good")); // Ok(Response)
 	 */
 	async async<X>(cb: () => Promise<X>): Promise<ResultVariant<{ Ok: X; Err: unknown }>> {
-		// Create a single factory for this function's return type
-		const R = Result<X, unknown>();
 		try {
-			// Use the local factory's .Ok
-			return R.Ok(await cb());
+			return SharedResult.Ok(await cb()) as any;
 		} catch (e) {
-			// Use the local factory's .Err
-			return R.Err(e);
+			return SharedResult.Err(e) as any;
 		}
 	},
 };
@@ -1241,4 +4351,181 @@ export const TryInto: {
 	async<X, Y extends any[]>(cb: (...args: Y) => Promise<X>) {
 		return async (...args: Y) => Try.async(() => cb(...args));
 	},
-};
\ No newline at end of file
+};
+
+/* =============================================================================
+ * AsyncResult (chainable Promise of Result)
+ * ============================================================================= */
+
+/**
+ * A `PromiseLike<ResultVariant>` that can be chained without intermediate
+ * `await`s. Awaiting it yields the underlying `Ok` / `Err` variant.
+ *
+ * Callbacks may return plain values or promises (and, for `andThen` /
+ * `orElse`, results, promises of results or other `AsyncResult`s). A callback
+ * that throws rejects the chain like any promise; use `Try` inside it to turn
+ * exceptions into `Err`s.
+ *
+ * @example
+ * const user = await AsyncResult.try(() => fetch(`/users/${id}`))
+ *   .andThen((res) => (res.ok ? Ok(res) : Err(res.statusText)))
+ *   .map((res) => res.json())
+ *   .unwrapOr(guest);
+ */
+export class AsyncResult<T, E> implements PromiseLike<ResultVariant<{ Ok: T; Err: E }>> {
+	private readonly promise: PromiseLike<ResultVariant<{ Ok: T; Err: E }>>;
+
+	constructor(promise: PromiseLike<ResultVariant<{ Ok: T; Err: E }>>) {
+		this.promise = promise;
+	}
+
+	/**
+	 * Wrap an existing promise of a result, such as the output of
+	 * `Try.async` or of a `TryInto.async` wrapper.
+	 *
+	 * @example
+	 * AsyncResult.from(Try.async(() => db.load(id)));
+	 */
+	static from<R extends AnyResult>(promise: PromiseLike<R>): AsyncResult<OkOf<R>, ErrOf<R>> {
+		return new AsyncResult(promise as any);
+	}
+
+	/**
+	 * Wrap a plain promise: resolves to `Ok`, rejections become `Err` (passed
+	 * through `mapError` when given).
+	 *
+	 * @example
+	 * AsyncResult.fromPromise(fetch(url), (e) => new NetworkError(e));
+	 */
+	static fromPromise<T, E = unknown>(
+		promise: PromiseLike<T>,
+		mapError?: (error: unknown) => E
+	): AsyncResult<T, E> {
+		return new AsyncResult(
+			Promise.resolve(promise).then(
+				(value) => Ok(value) as any,
+				(error) => Err(mapError ? mapError(error) : error) as any
+			)
+		);
+	}
+
+	/**
+	 * Run an async function like `Try.async`, without awaiting the result.
+	 *
+	 * @example
+	 * AsyncResult.try(() => fs.readFile(path, "utf8"));
+	 */
+	static try<T>(cb: () => PromiseLike<T>): AsyncResult<T, unknown> {
+		return new AsyncResult(Try.async(async () => cb()));
+	}
+
+	/**
+	 * Adapt a function returning a promise of a result (for example a
+	 * `TryInto.async` wrapper) so that it returns an `AsyncResult`.
+	 *
+	 * @example
+	 * const loadUser = AsyncResult.wrap(TryInto.async(api.loadUser));
+	 * loadUser(1).map((u) => u.name);
+	 */
+	static wrap<Y extends any[], R extends AnyResult>(
+		fn: (...args: Y) => PromiseLike<R>
+	): (...args: Y) => AsyncResult<OkOf<R>, ErrOf<R>> {
+		return (...args: Y) => AsyncResult.from(fn(...args));
+	}
+
+	/** An already resolved `Ok`. */
+	static ok<T>(value: T): AsyncResult<T, never> {
+		return new AsyncResult(Promise.resolve(Ok(value)));
+	}
+
+	/** An already resolved `Err`. */
+	static err<E>(error: E): AsyncResult<never, E> {
+		return new AsyncResult(Promise.resolve(Err(error)));
+	}
+
+	then<A = ResultVariant<{ Ok: T; Err: E }>, B = never>(
+		onfulfilled?: ((value: ResultVariant<{ Ok: T; Err: E }>) => A | PromiseLike<A>) | null,
+		onrejected?: ((reason: any) => B | PromiseLike<B>) | null
+	): PromiseLike<A | B> {
+		return this.promise.then(onfulfilled, onrejected);
+	}
+
+	/**
+	 * Transform the `Ok` value.
+	 *
+	 * @example
+	 * AsyncResult.ok(2).map(async (x) => x * 2); // Ok(4)
+	 */
+	map<U>(f: (t: T) => U | PromiseLike<U>): AsyncResult<U, E> {
+		return this.chain((r) =>
+			r.tag === "Ok" ? Promise.resolve(f(r.data as T)).then((u) => Ok(u)) : r
+		);
+	}
+
+	/**
+	 * Transform the `Err` value.
+	 *
+	 * @example
+	 * AsyncResult.err("!").mapErr((e) => new Error(e)); // Err(Error("!"))
+	 */
+	mapErr<F>(f: (e: E) => F | PromiseLike<F>): AsyncResult<T, F> {
+		return this.chain((r) =>
+			r.tag === "Err" ? Promise.resolve(f(r.data as E)).then((e) => Err(e)) : r
+		);
+	}
+
+	/**
+	 * Continue with another (sync or async) result when `Ok`. The error type
+	 * widens to include the new step's errors.
+	 *
+	 * @example
+	 * loadUser(id).andThen((u) => loadTeam(u.teamId)); // AsyncResult<Team, LoadError | TeamError>
+	 */
+	andThen<R extends AnyResult>(f: (t: T) => R | PromiseLike<R>): AsyncResult<OkOf<R>, E | ErrOf<R>> {
+		return this.chain((r) => (r.tag === "Ok" ? f(r.data as T) : r));
+	}
+
+	/**
+	 * Recover with another (sync or async) result when `Err`.
+	 *
+	 * @example
+	 * fromCache(key).orElse(() => fromNetwork(key));
+	 */
+	orElse<R extends AnyResult>(f: (e: E) => R | PromiseLike<R>): AsyncResult<T | OkOf<R>, ErrOf<R>> {
+		return this.chain((r) => (r.tag === "Err" ? f(r.data as E) : r));
+	}
+
+	/**
+	 * Resolve to the return value of the handler for the settled variant.
+	 *
+	 * @example
+	 * const status = await save(doc).match({ Ok: () => 201, Err: () => 500 });
+	 */
+	match<A, B = A>(handlers: { Ok: (t: T) => A | PromiseLike<A>; Err: (e: E) => B | PromiseLike<B> }): Promise<A | B> {
+		return Promise.resolve(this.promise).then((r) =>
+			r.tag === "Ok" ? handlers.Ok(r.data as T) : handlers.Err(r.data as E)
+		);
+	}
+
+	/**
+	 * Resolve to the `Ok` value, or `fallback` for `Err`.
+	 *
+	 * @example
+	 * const config = await loadConfig().unwrapOr(defaults);
+	 */
+	unwrapOr(fallback: T): Promise<T> {
+		return Promise.resolve(this.promise).then((r) => (r.tag === "Ok" ? (r.data as T) : fallback));
+	}
+
+	/**
+	 * Early-return protocol for `Result.genAsync`: `yield* asyncResult`
+	 * evaluates to the `Ok` value, or returns the `Err` from the generator.
+	 */
+	async *[Symbol.asyncIterator](): AsyncGenerator<ResultVariant<{ Ok: never; Err: E }>, T, unknown> {
+		return yield* await this.promise;
+	}
+
+	private chain(step: (r: AnyResult) => unknown): AsyncResult<any, any> {
+		return new AsyncResult(Promise.resolve(this.promise).then(step as any));
+	}
+}
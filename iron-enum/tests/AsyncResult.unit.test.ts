@@ -0,0 +1,62 @@
+import { AsyncResult, Ok, Err, Result, Try, TryInto } from "../mod";
+
+describe("AsyncResult", () => {
+  it("is awaitable and resolves to the underlying variant", async () => {
+    const r = await AsyncResult.ok(1);
+    expect(r.unwrap()).toBe(1);
+    expect((await AsyncResult.err("x")).unwrapErr()).toBe("x");
+  });
+
+  it("chains map / andThen / unwrapOr without intermediate awaits", async () => {
+    const half = (x: number) => (x % 2 === 0 ? Ok(x / 2) : Err(`odd: ${x}`));
+    const value = await AsyncResult.ok(8)
+      .map(async (x) => x + 4)
+      .andThen(half)
+      .andThen(async (x) => half(x))
+      .unwrapOr(-1);
+    expect(value).toBe(3);
+
+    const failed = await AsyncResult.ok(6).andThen(half).andThen(half).unwrapOr(-1);
+    expect(failed).toBe(-1);
+  });
+
+  it("andThen accepts other AsyncResults and skips on Err", async () => {
+    const calls: number[] = [];
+    const step = (x: number) => (calls.push(x), AsyncResult.ok(String(x)));
+    const ok: string = (await AsyncResult.ok(1).andThen(step)).unwrap();
+    expect(ok).toBe("1");
+    await AsyncResult.err("x").andThen(step);
+    expect(calls).toEqual([1]);
+  });
+
+  it("mapErr and orElse work on the error side", async () => {
+    const mapped = await AsyncResult.err("boom").mapErr((e) => new Error(e));
+    expect(mapped.unwrapErr()).toBeInstanceOf(Error);
+
+    const R = Result<number, string>();
+    const recovered = await AsyncResult.from(Promise.resolve(R.Err("miss"))).orElse(async () => Ok(42));
+    expect(recovered.unwrap()).toBe(42);
+  });
+
+  it("match resolves the handler's value", async () => {
+    const status = await AsyncResult.fromPromise(Promise.reject(new Error("down"))).match({
+      Ok: () => 200,
+      Err: () => 500,
+    });
+    expect(status).toBe(500);
+  });
+
+  it("constructs from Try.async, plain promises and TryInto.async wrappers", async () => {
+    expect((await AsyncResult.from(Try.async(async () => 1))).unwrap()).toBe(1);
+    expect((await AsyncResult.try(async () => { throw "nope"; })).unwrapErr()).toBe("nope");
+    expect((await AsyncResult.fromPromise(Promise.resolve("a"))).unwrap()).toBe("a");
+    const code = await AsyncResult.fromPromise(Promise.reject("e"), (e) => `wrapped ${e}`).match({
+      Ok: () => "",
+      Err: (e) => e,
+    });
+    expect(code).toBe("wrapped e");
+
+    const load = AsyncResult.wrap(TryInto.async(async (id: number) => ({ id })));
+    expect(await load(7).map((u) => u.id).unwrapOr(0)).toBe(7);
+  });
+});
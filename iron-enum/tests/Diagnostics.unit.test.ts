@@ -0,0 +1,86 @@
+import { IronEnum, configure, NonExhaustiveMatchError } from "../mod";
+import type { Diagnostic } from "../mod";
+
+describe("Development diagnostics", () => {
+  const reported: Diagnostic[] = [];
+
+  beforeAll(() => configure({ onDiagnostic: (d) => reported.push(d) }));
+  beforeEach(() => { reported.length = 0; });
+
+  type Status = { Idle: undefined; Busy: { job: string }; Done: undefined };
+  const keys: (keyof Status)[] = ["Idle", "Busy", "Done"];
+
+  it("flags typos, missing tags and stray fallbacks", () => {
+    const S = IronEnum<Status>({ keys, name: "Status", dev: true });
+    S.Idle().match({ Idle: () => 1, Bussy: () => 2, Done: () => 3 } as any);
+    S.Idle().match({ Idle: () => 1, Busy: () => 2, Done: () => 3, _: () => 4 });
+    S.Idle().matchExhaustive({ Idle: () => 1, _: () => 2 } as any);
+
+    expect(reported.map((d) => d.code)).toEqual([
+      "UNKNOWN_HANDLER",
+      "MISSING_HANDLER",
+      "STRAY_FALLBACK",
+      "STRAY_FALLBACK",
+      "MISSING_HANDLER",
+    ]);
+    expect(reported[0]).toMatchObject({ enum: "Status", tag: "Bussy" });
+  });
+
+  it("reports data on unit variants once", () => {
+    const S = IronEnum<Status>({ keys, dev: true, units: ["Idle", "Done"] });
+    (S.Idle as any)(42);
+    (S.Idle as any)(43);
+    expect(reported.map((d) => d.code)).toEqual(["UNEXPECTED_DATA"]);
+  });
+
+  it("keeps variants built outside development mode on the plain prototype", () => {
+    const S = IronEnum<Status>({ keys });
+    const plain = Object.getPrototypeOf(S.Idle());
+    configure({ dev: true });
+    try {
+      expect(Object.getPrototypeOf(S.Idle())).not.toBe(plain);
+      expect(Object.prototype.hasOwnProperty.call(Object.getPrototypeOf(S.Idle()), "match")).toBe(true);
+    } finally {
+      configure({ dev: false });
+    }
+    expect(Object.getPrototypeOf(S.Idle())).toBe(plain);
+    expect(Object.prototype.hasOwnProperty.call(plain, "match")).toBe(false);
+  });
+
+  it("is off unless enabled, globally or per factory", () => {
+    const Quiet = IronEnum<Status>({ keys });
+    Quiet.Idle().match({ Idle: () => 1, Bussy: () => 2 } as any);
+    expect(reported).toHaveLength(0);
+
+    configure({ dev: true });
+    const Loud = IronEnum<Status>({ keys });
+    const OptOut = IronEnum<Status>({ keys, dev: false });
+    Loud.Idle().match({ Idle: () => 1, Bussy: () => 2 } as any);
+    OptOut.Idle().match({ Idle: () => 1, Bussy: () => 2 } as any);
+    configure({ dev: false });
+    expect(reported.map((d) => d.code)).toEqual(["UNKNOWN_HANDLER", "MISSING_HANDLER"]);
+  });
+
+  it("applies configure to factories created before it", () => {
+    const Early = IronEnum<Status>({ keys, units: ["Idle"] });
+    const Pinned = IronEnum<Status>({ keys, dev: true });
+    Early.Idle().match({ Idle: () => 1, Bussy: () => 2 } as any);
+    expect(reported).toHaveLength(0);
+
+    configure({ dev: true });
+    try {
+      (Early.Idle as any)(1);
+      Early.Idle().match({ Idle: () => 1, Bussy: () => 2 } as any);
+    } finally {
+      configure({ dev: false });
+    }
+    Early.Idle().match({ Idle: () => 1, Typo: () => 2 } as any);
+    Pinned.Idle().match({ Idle: () => 1, Busy: () => 2 } as any);
+    expect(reported.map((d) => d.code)).toEqual(["UNEXPECTED_DATA", "UNKNOWN_HANDLER", "MISSING_HANDLER", "MISSING_HANDLER"]);
+  });
+
+  it("matchExhaustive without a handler throws a typed error", () => {
+    const S = IronEnum<Status>({ keys });
+    expect(() => S.Done().matchExhaustive({ Idle: () => 1 } as any)).toThrow(NonExhaustiveMatchError);
+  });
+});
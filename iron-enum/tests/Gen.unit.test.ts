@@ -0,0 +1,129 @@
+import { Result, Option, AsyncResult, Ok, Err, Some, None } from "../mod";
+
+const parseNum = (s: string) => {
+  const R = Result<number, "NaN">();
+  const n = Number(s);
+  return Number.isNaN(n) ? R.Err("NaN") : R.Ok(n);
+};
+
+const positive = (n: number) => {
+  const R = Result<number, { negative: number }>();
+  return n >= 0 ? R.Ok(n) : R.Err({ negative: n });
+};
+
+describe("Result.gen", () => {
+  it("unwraps Ok values and wraps the return value", () => {
+    const r = Result.gen(function* () {
+      const a = yield* parseNum("4");
+      const b = yield* positive(a);
+      return b * 2;
+    });
+    const value: number = r.unwrap();
+    expect(value).toBe(8);
+  });
+
+  it("short-circuits on the first Err and infers the error union", () => {
+    const reached: string[] = [];
+    const r = Result.gen(function* () {
+      const a = yield* parseNum("-3");
+      reached.push("parsed");
+      const b = yield* positive(a);
+      reached.push("checked");
+      return b;
+    });
+    const err: "NaN" | { negative: number } = r.unwrapErr();
+    expect(err).toEqual({ negative: -3 });
+    expect(reached).toEqual(["parsed"]);
+  });
+
+  it("runs finally blocks when short-circuiting", () => {
+    let cleaned = false;
+    const r = Result.gen(function* () {
+      try {
+        return yield* Err("boom");
+      } finally {
+        cleaned = true;
+      }
+    });
+    expect(r.unwrapErr()).toBe("boom");
+    expect(cleaned).toBe(true);
+  });
+
+  it("treats a bare yield of Ok as a value, not a short-circuit", () => {
+    const r = Result.gen(function* () {
+      const a: number = yield Ok(1);
+      return a + 4;
+    });
+    expect(r.unwrap()).toBe(5);
+    expect(Result.gen(function* () { yield Err("stop"); return 5; }).unwrapErr()).toBe("stop");
+  });
+
+  it("keeps Rust-style iteration available through iter()", () => {
+    expect([...Ok(1).iter()]).toEqual([1]);
+    expect([...Err("x").iter()]).toEqual([]);
+  });
+});
+
+describe("Result.genAsync", () => {
+  it("accepts results, awaited promises and AsyncResults", async () => {
+    const r = Result.genAsync(async function* () {
+      const a = yield* parseNum("2");
+      const b = yield* await Promise.resolve(positive(a + 1));
+      const c = yield* AsyncResult.ok(b * 10);
+      return c;
+    });
+    expect(r).toBeInstanceOf(AsyncResult);
+    expect(await r.unwrapOr(0)).toBe(30);
+  });
+
+  it("treats a bare yield of Ok as a value", async () => {
+    const r = Result.genAsync(async function* () {
+      yield Ok(1);
+      return 5;
+    });
+    expect(await r.unwrapOr(0)).toBe(5);
+  });
+
+  it("short-circuits on an AsyncResult Err", async () => {
+    const r = Result.genAsync(async function* () {
+      yield* AsyncResult.err("offline" as const);
+      return 1;
+    });
+    const err: "offline" = (await r).unwrapErr();
+    expect(err).toBe("offline");
+  });
+});
+
+describe("Option.gen", () => {
+  const find = (id: number) => (id > 0 ? Some({ id, email: id % 2 ? Some(`${id}@x.io`) : None() }) : None());
+
+  it("unwraps Some values and short-circuits on None", () => {
+    const email = (id: number) =>
+      Option.gen(function* () {
+        const user = yield* find(id);
+        return yield* user.email;
+      });
+    const found: string = email(1).unwrap();
+    expect(found).toBe("1@x.io");
+    expect(email(2).isNone()).toBe(true);
+    expect(email(0).isNone()).toBe(true);
+  });
+
+  it("treats a bare yield of Some as a value", async () => {
+    expect(Option.gen(function* () { yield Some(1); return 5; }).unwrap()).toBe(5);
+    expect(Option.gen(function* () { yield None(); return 5; }).isNone()).toBe(true);
+    expect((await Option.genAsync(async function* () { yield Some(1); return 5; })).unwrap()).toBe(5);
+  });
+
+  it("has an async variant", async () => {
+    const some = await Option.genAsync(async function* () {
+      const user = yield* await Promise.resolve(find(3));
+      return user.id;
+    });
+    expect(some.unwrap()).toBe(3);
+    const none = await Option.genAsync(async function* () {
+      return yield* find(-1);
+    });
+    expect(none.isNone()).toBe(true);
+  });
+});
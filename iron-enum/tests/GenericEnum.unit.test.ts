@@ -0,0 +1,59 @@
+import { GenericEnum } from "../mod";
+import type { EnumKind } from "../mod";
+
+type RemoteDataVariants<T, E> = {
+  NotAsked: undefined;
+  Loading: undefined;
+  Success: T;
+  Failure: E;
+};
+
+interface RemoteDataKind extends EnumKind {
+  readonly variants: RemoteDataVariants<this["A"], this["B"]>;
+}
+
+describe("GenericEnum", () => {
+  const RemoteData = GenericEnum<RemoteDataKind>({
+    keys: ["NotAsked", "Loading", "Success", "Failure"],
+  }).impl({
+    isSettled(): boolean {
+      return this.tag === "Success" || this.tag === "Failure";
+    },
+  });
+
+  it("instantiates typed factories from one declaration", () => {
+    const Users = RemoteData<{ name: string }[], string>();
+    const ok = Users.Success([{ name: "a" }]);
+    expect(ok.data[0].name).toBe("a");
+    expect(ok.isSettled()).toBe(true);
+    expect(Users.Loading().isSettled()).toBe(false);
+
+    const label = ok.match({
+      Success: (users) => users.map((u) => u.name).join(","),
+      Failure: (e) => e.toUpperCase(),
+      _: () => "…",
+    });
+    expect(label).toBe("a");
+
+    // @ts-expect-error Success holds the first type argument
+    Users.Success("nope");
+  });
+
+  it("shares the factory and prototype across instantiations", () => {
+    const A = RemoteData<number, string>();
+    const B = RemoteData<string, Error>();
+    expect(A).toBe(B as unknown);
+    expect(Object.getPrototypeOf(A.Success(1))).toBe(Object.getPrototypeOf(B.Success("x")));
+    expect(A._.keys).toEqual(["NotAsked", "Loading", "Success", "Failure"]);
+  });
+
+  it("supports chained impl blocks", () => {
+    const Described = RemoteData.impl({
+      describe(): string {
+        return this.isSettled() ? `settled:${this.tag}` : this.tag;
+      },
+    });
+    expect(Described<number, string>().Failure("x").describe()).toBe("settled:Failure");
+    expect("describe" in RemoteData<number, string>().Failure("x")).toBe(false);
+  });
+});
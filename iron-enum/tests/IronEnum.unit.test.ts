@@ -1,4 +1,4 @@
-import { IronEnum } from "../mod";
+import { IronEnum, IronEnumDefinitionError } from "../mod";
 
 describe("IronEnum builder & instance basics", () => {
   const Status = IronEnum<{
@@ -54,6 +54,15 @@ describe("IronEnum builder & instance basics", () => {
     expect(val.ifNot("Loading")).toBe(false);
   });
 
+  it("variants share one prototype and only own tag/data/instance", () => {
+    const a = Status.Loading();
+    const b = Status.Ready({ finishedAt: new Date() });
+    expect(Object.keys(a)).toEqual(["tag", "data", "instance"]);
+    expect(Object.getPrototypeOf(a)).toBe(Object.getPrototypeOf(b));
+    expect(a.match).toBe(b.match);
+    expect(a.instance).toBe(Status);
+  });
+
   it("parse() reconstructs a variant object", () => {
     const obj = {tag: "Ready" as const, data: { finishedAt: new Date(0) } };
     const val = Status._.parse(obj);
@@ -61,3 +70,319 @@ describe("IronEnum builder & instance basics", () => {
     expect(val.data).toEqual(obj.data);
   });
 });
+
+describe("IronEnum equality & hashing", () => {
+  const Shape = IronEnum<{
+    Point: undefined;
+    Poly: { points: [number, number][]; tags: Map<string, Date> };
+    Group: { items: unknown[] };
+  }>();
+
+  const poly = () =>
+    Shape.Poly({ points: [[0, 0], [1, 2]], tags: new Map([["at", new Date(0)]]) });
+
+  it("equals() compares tag and payload structurally", () => {
+    expect(poly().equals(poly())).toBe(true);
+    expect(Shape.Point().equals(Shape.Point())).toBe(true);
+    expect(Shape.Point().equals(poly())).toBe(false);
+    expect(
+      poly().equals(Shape.Poly({ points: [[0, 0]], tags: new Map([["at", new Date(0)]]) }))
+    ).toBe(false);
+    expect(
+      poly().equals(Shape.Poly({ points: [[0, 0], [1, 2]], tags: new Map([["at", new Date(1)]]) }))
+    ).toBe(false);
+  });
+
+  it("equals() handles nested variants", () => {
+    const a = Shape.Group({ items: [poly(), Shape.Point()] });
+    const b = Shape.Group({ items: [poly(), Shape.Point()] });
+    const c = Shape.Group({ items: [Shape.Point(), poly()] });
+    expect(a.equals(b)).toBe(true);
+    expect(a.equals(c)).toBe(false);
+  });
+
+  it("hash() is stable and consistent with equals()", () => {
+    expect(poly().hash()).toBe(poly().hash());
+    expect(Shape.Point().hash()).not.toBe(poly().hash());
+    const m1 = Shape.Group({ items: [new Map([["a", 1], ["b", 2]])] });
+    const m2 = Shape.Group({ items: [new Map([["b", 2], ["a", 1]])] });
+    expect(m1.equals(m2)).toBe(true);
+    expect(m1.hash()).toBe(m2.hash());
+  });
+
+  it("equals() matches Set members and Map keys structurally", () => {
+    const s1 = Shape.Group({ items: [new Set<unknown>([Shape.Point(), poly()])] });
+    const s2 = Shape.Group({ items: [new Set<unknown>([poly(), Shape.Point()])] });
+    const s3 = Shape.Group({ items: [new Set([poly(), poly()])] });
+    expect(s1.equals(s2)).toBe(true);
+    expect(s1.hash()).toBe(s2.hash());
+    expect(s1.equals(s3)).toBe(false);
+
+    const k1 = Shape.Group({ items: [new Map<unknown, number>([[Shape.Point(), 1], [poly(), 2]])] });
+    const k2 = Shape.Group({ items: [new Map<unknown, number>([[poly(), 2], [Shape.Point(), 1]])] });
+    const k3 = Shape.Group({ items: [new Map<unknown, number>([[poly(), 1], [Shape.Point(), 2]])] });
+    expect(k1.equals(k2)).toBe(true);
+    expect(k1.equals(k3)).toBe(false);
+  });
+
+  it("equals() and hash() terminate on cyclic payloads", () => {
+    const cyclic = () => {
+      const items: unknown[] = [1];
+      items.push(items);
+      return Shape.Group({ items });
+    };
+    expect(cyclic().equals(cyclic())).toBe(true);
+    expect(cyclic().hash()).toBe(cyclic().hash());
+    expect(cyclic().equals(Shape.Group({ items: [1, []] }))).toBe(false);
+  });
+
+  it("_.eq works as a comparator", () => {
+    const list = [Shape.Point(), poly(), Shape.Point(), poly()];
+    const unique = list.filter((v, i) => list.findIndex((o) => Shape._.eq(o, v)) === i);
+    expect(unique.map((v) => v.tag)).toEqual(["Point", "Poly"]);
+  });
+});
+
+describe("IronEnum impl blocks", () => {
+  const Shape = IronEnum<{
+    Circle: { r: number };
+    Rect: { w: number; h: number };
+  }>({ keys: ["Circle", "Rect"] })._.impl({
+    area(): number {
+      return this.match({
+        Circle: ({ r }) => Math.PI * r * r,
+        Rect: ({ w, h }) => w * h,
+      });
+    },
+    get isRound(): boolean {
+      return this.tag === "Circle";
+    },
+  });
+
+  it("adds methods to every variant through the prototype", () => {
+    const rect = Shape.Rect({ w: 2, h: 3 });
+    expect(rect.area()).toBe(6);
+    expect(rect.isRound).toBe(false);
+    expect(Object.keys(rect)).toEqual(["tag", "data", "instance"]);
+    expect(rect.instance).toBe(Shape);
+  });
+
+  it("methods survive parse and can be chained", () => {
+    const parsed = Shape._.parse({ tag: "Circle", data: { r: 1 } });
+    expect(parsed.area()).toBeCloseTo(Math.PI);
+
+    const Scaled = Shape._.impl({
+      doubled(): number {
+        return this.area() * 2;
+      },
+    });
+    expect(Scaled.Rect({ w: 1, h: 1 }).doubled()).toBe(2);
+  });
+
+  it("refuses names that shadow built-ins", () => {
+    expect(() => Shape._.impl({ match() { return 1; } })).toThrow(/reserved/);
+    expect(() => Shape._.impl({ data: 1 })).toThrow(/reserved/);
+  });
+});
+
+describe("Deriving enums with extend / pick / omit", () => {
+  const Status = IronEnum<{
+    Active: { since: number };
+    Suspended: { reason: string };
+    Internal: undefined;
+  }>({ keys: ["Active", "Suspended", "Internal"] });
+
+  it("extend adds variants and keeps existing ones", () => {
+    const Extended = Status._.extend<{ Deleted: undefined }>(["Deleted"]);
+    expect(Extended.Deleted().tag).toBe("Deleted");
+    expect(Extended.Active({ since: 1 }).data).toEqual({ since: 1 });
+    expect(Object.keys(Extended).sort()).toEqual(["Active", "Deleted", "Internal", "Suspended", "_"]);
+  });
+
+  it("extend keeps keys, so it needs the new ones", () => {
+    const Extended = Status._.extend<{ Deleted: undefined }>(["Deleted"]);
+    expect(Extended._.keys).toEqual(["Active", "Suspended", "Internal", "Deleted"]);
+    expect(Extended._.ordinal("Deleted")).toBe(3);
+    expect(() => Status._.extend<{ Deleted: undefined }>()).toThrow(
+      expect.objectContaining({ code: "KEYS_REQUIRED" })
+    );
+  });
+
+  it("pick and omit restrict the variant set", () => {
+    const Picked = Status._.pick(["Active", "Suspended"]);
+    const Omitted = Status._.omit(["Internal"]);
+    expect(Picked.Active({ since: 1 }).tag).toBe("Active");
+    expect("Internal" in Picked).toBe(false);
+    expect("Internal" in Omitted).toBe(false);
+    expect(() => Picked._.parse({ tag: "Internal" } as any)).toThrow();
+    expect(() => IronEnum<{ A: undefined }>()._.omit(["A"])).toThrow(/keys/);
+  });
+
+  it("widen and narrow convert between parent and child", () => {
+    const Public = Status._.omit(["Internal"]);
+
+    const wide = Status._.widen(Public.Suspended({ reason: "spam" }));
+    expect(wide.instance).toBe(Status);
+    expect(wide.equals(Status.Suspended({ reason: "spam" }))).toBe(true);
+
+    const some = Public._.narrow(Status.Active({ since: 2 }));
+    expect(some.isSome()).toBe(true);
+    expect(some.unwrap().instance).toBe(Public);
+    expect(Public._.narrow(Status.Internal()).isNone()).toBe(true);
+  });
+});
+
+describe("Introspection", () => {
+  const Priority = IronEnum<{
+    Low: undefined;
+    Medium: undefined;
+    High: undefined;
+  }>({
+    keys: ["Low", "Medium", "High"],
+    meta: {
+      Low: { label: "Low priority" },
+      High: { label: "Urgent", deprecated: "use Medium" },
+    },
+  });
+
+  it("exposes keys, ordinals and membership", () => {
+    expect(Priority._.keys).toEqual(["Low", "Medium", "High"]);
+    expect(Priority._.ordinal("High")).toBe(2);
+    expect(Priority._.ordinal("Nope")).toBe(-1);
+    expect(Priority._.has("Medium")).toBe(true);
+    expect(Priority._.has("Nope")).toBe(false);
+  });
+
+  it("throws KEYS_REQUIRED for introspection without keys", () => {
+    const Keyless = IronEnum<{ A: undefined }>();
+    const keysRequired = expect.objectContaining({ code: "KEYS_REQUIRED" });
+    expect(() => Keyless._.keys).toThrow(keysRequired);
+    expect(() => Keyless._.has("A")).toThrow(keysRequired);
+    expect(() => Keyless._.ordinal("A")).toThrow(keysRequired);
+    expect(() => Keyless.A().cmp(Keyless.A())).toThrow(keysRequired);
+  });
+
+  it("returns per-variant metadata", () => {
+    expect(Priority._.meta("Low")).toEqual({ label: "Low priority" });
+    expect(Priority._.meta("High")?.deprecated).toBe("use Medium");
+    expect(Priority._.meta("Medium")).toBeUndefined();
+    expect(Priority._.pick(["High"])._.meta("High")?.label).toBe("Urgent");
+  });
+
+  it("rejects metadata for unknown tags", () => {
+    expect(() =>
+      IronEnum<{ A: undefined }>({ keys: ["A"], meta: { B: {} } as any })
+    ).toThrow(/Unexpected variant 'B'/);
+  });
+});
+
+describe("Ordering", () => {
+  const Priority = IronEnum<{
+    Low: undefined;
+    Medium: { weight: number };
+    High: undefined;
+  }>({ keys: ["Low", "Medium", "High"] });
+
+  it("compares by declaration order", () => {
+    expect(Priority._.compare(Priority.Low(), Priority.High())).toBe(-1);
+    expect(Priority.High().gt(Priority.Medium({ weight: 1 }))).toBe(true);
+    expect(Priority.Low().cmp(Priority.Low())).toBe(0);
+  });
+
+  it("breaks ties with a payload comparator", () => {
+    const byWeight = (a: any, b: any) => a.weight - b.weight;
+    const heavy = Priority.Medium({ weight: 9 });
+    const light = Priority.Medium({ weight: 2 });
+    const heaviestFirst = (a: any, b: any) => b.weight - a.weight;
+    expect(heavy.cmp(light, byWeight)).toBe(1);
+    expect(heavy.cmp(light, heaviestFirst)).toBe(-1);
+
+    const sorted = Priority._.sortBy([Priority.High(), heavy, Priority.Low(), light], byWeight);
+    expect(sorted.map((p) => p.tag)).toEqual(["Low", "Medium", "Medium", "High"]);
+    expect(sorted[1]).toBe(light);
+  });
+
+  it("compares array and object payloads structurally", () => {
+    const Shape = IronEnum<{ Path: { points: number[] }; Any: unknown }>({ keys: ["Path", "Any"] });
+    const a = Shape.Path({ points: [1, 2] });
+    expect(a.cmp(Shape.Path({ points: [1, 2] }))).toBe(0);
+    expect(a.cmp(Shape.Path({ points: [1, 3] }))).toBe(-1);
+    expect(a.cmp(Shape.Path({ points: [1] }))).toBe(1);
+    expect(Shape.Any({ a: 1 }).cmp(Shape.Any({ b: 0 }))).toBe(-1);
+    expect(Shape.Any({ a: 1, b: 2 }).cmp(Shape.Any({ b: 2, a: 1 }))).toBe(0);
+    expect(Shape.Any(1).cmp(Shape.Any("1"))).toBe(-1);
+    expect(Shape.Any(NaN).cmp(Shape.Any(NaN))).toBe(0);
+
+    const payloads = [[1], { a: 1 }, { a: 2 }, "x", [1, 2]];
+    for (const x of payloads) {
+      for (const y of payloads) {
+        expect(Shape.Any(x).cmp(Shape.Any(y)) === 0).toBe(Shape.Any(x).equals(Shape.Any(y)));
+      }
+    }
+  });
+
+  it("asks for a comparator for payloads it cannot order", () => {
+    const Bag = IronEnum<{ Items: Set<number> }>({ keys: ["Items"] });
+    expect(() => Bag.Items(new Set([1])).cmp(Bag.Items(new Set([2])))).toThrow(/pass a comparator/);
+    expect(() => Bag.Items(new Set([1])).cmp(Bag.Items(new Set([2])))).toThrow(IronEnumDefinitionError);
+    expect(Bag.Items(new Set([1])).cmp(Bag.Items(new Set([2])), () => 0)).toBe(0);
+  });
+
+  it("needs keys to order variants", () => {
+    const Loose = IronEnum<{ A: undefined; B: undefined }>();
+    expect(() => Loose.A().cmp(Loose.B())).toThrow(/keys/);
+  });
+});
+
+describe("Immutable updates", () => {
+  const Doc = IronEnum<{
+    Draft: { title: string; meta: { tags: string[]; author: { name: string; id: number } } };
+    Published: { at: number };
+    Empty: undefined;
+  }>({ keys: ["Draft", "Published", "Empty"] });
+
+  const draft = Doc.Draft({ title: "a", meta: { tags: ["x"], author: { name: "n", id: 1 } } });
+
+  it("with() merges shallowly or deeply into a new variant", () => {
+    const renamed = draft.with({ title: "b" });
+    expect(renamed.data.title).toBe("b");
+    expect(renamed.data.meta).toBe(draft.data.meta);
+    expect(draft.data.title).toBe("a");
+    expect(renamed.instance).toBe(Doc);
+
+    const deep = draft.with({ meta: { author: { id: 2 } } }, { deep: true });
+    expect(deep.data.meta).toEqual({ tags: ["x"], author: { name: "n", id: 2 } });
+    expect(draft.data.meta.author.id).toBe(1);
+
+    expect(() => (Doc.Empty() as any).with({})).toThrow(expect.objectContaining({ code: "INVALID_PAYLOAD" }));
+  });
+
+  it("update() and mapData() transform the payload", () => {
+    const published = Doc.Published({ at: 1 }) as typeof Doc._.typeOf;
+    expect(published.mapData("Published", (d) => ({ at: d.at + 1 })).data).toEqual({ at: 2 });
+    expect(published.mapData("Draft", (d) => ({ ...d, title: "?" }))).toBe(published);
+    expect(Doc.Published({ at: 1 }).update((d) => ({ at: d.at * 10 })).data.at).toBe(10);
+  });
+
+  it("freeze: true deep-freezes payloads", () => {
+    const Frozen = IronEnum<{ Point: { pos: { x: number }; list: number[] } }>({ freeze: true });
+    const p = Frozen.Point({ pos: { x: 1 }, list: [1] });
+    expect(Object.isFrozen(p)).toBe(true);
+    expect(() => { (p.data.pos as any).x = 2; }).toThrow(TypeError);
+    expect(() => { (p.data.list as any).push(2); }).toThrow(TypeError);
+    expect(p.with({ list: [1, 2] }).data.list).toEqual([1, 2]);
+    expect(Object.isFrozen(p.with({ list: [3] }).data)).toBe(true);
+  });
+
+  it("freeze: true leaves the caller's payload mutable", () => {
+    const Frozen = IronEnum<{ Node: { child: { x: number }; self?: unknown } }>({ freeze: true });
+    const input: { child: { x: number }; self?: unknown } = { child: { x: 1 } };
+    input.self = input;
+    const node = Frozen.Node(input);
+    expect(Object.isFrozen(input)).toBe(false);
+    expect(Object.isFrozen(input.child)).toBe(false);
+    input.child.x = 2;
+    expect(node.data.child.x).toBe(1);
+    expect(node.data.self).toBe(node.data);
+  });
+});
@@ -0,0 +1,98 @@
+import { IronEnum, createMachine, IllegalTransitionError } from "../mod";
+
+describe("createMachine", () => {
+  const DoorState = IronEnum<{
+    Closed: undefined;
+    Opened: undefined;
+    Locked: { code: number };
+  }>({ keys: ["Closed", "Opened", "Locked"] });
+
+  const DoorEvent = IronEnum<{
+    Open: undefined;
+    Close: undefined;
+    Lock: { code: number };
+    Unlock: { code: number };
+  }>({ keys: ["Open", "Close", "Lock", "Unlock"] });
+
+  const door = () =>
+    createMachine(
+      DoorState,
+      DoorEvent,
+      {
+        Closed: {
+          Open: () => DoorState.Opened(),
+          Lock: (_s, e) => DoorState.Locked({ code: e.data.code }),
+        },
+        Opened: { Close: () => DoorState.Closed() },
+        Locked: {
+          Unlock: (s, e) => (e.data.code === s.data.code ? DoorState.Closed() : undefined),
+        },
+      },
+      { initial: DoorState.Closed() }
+    );
+
+  it("moves between states and records history", () => {
+    const m = door();
+    expect(m.send(DoorEvent.Lock({ code: 7 })).isOk()).toBe(true);
+    expect(m.state.tag).toBe("Locked");
+    m.send(DoorEvent.Unlock({ code: 7 }));
+    m.send(DoorEvent.Open());
+
+    expect(m.state.tag).toBe("Opened");
+    expect(m.history.map((s) => `${s.from.tag}-${s.event.tag}->${s.to.tag}`)).toEqual([
+      "Closed-Lock->Locked",
+      "Locked-Unlock->Closed",
+      "Closed-Open->Opened",
+    ]);
+  });
+
+  it("rejects illegal transitions and failed guards with an Err", () => {
+    const m = door();
+    const illegal = m.send(DoorEvent.Close());
+    expect(illegal.isErr()).toBe(true);
+    illegal.if("Err", (e) => {
+      expect(e).toBeInstanceOf(IllegalTransitionError);
+      expect(e.code).toBe("ILLEGAL_TRANSITION");
+    });
+
+    m.send(DoorEvent.Lock({ code: 1 }));
+    expect(m.can("Unlock")).toBe(true);
+    expect(m.can(DoorEvent.Unlock({ code: 2 }))).toBe(false);
+    expect(m.send(DoorEvent.Unlock({ code: 2 })).isErr()).toBe(true);
+    expect(m.state.tag).toBe("Locked");
+    expect(m.history).toHaveLength(1);
+  });
+
+  it("notifies subscribers until they unsubscribe", () => {
+    const m = door();
+    const seen: string[] = [];
+    const off = m.subscribe((state, step) => seen.push(`${step.event.tag}:${state.tag}`));
+    m.send(DoorEvent.Open());
+    off();
+    m.send(DoorEvent.Close());
+    expect(seen).toEqual(["Open:Opened"]);
+  });
+
+  it("checks events against the state at the type level", () => {
+    const m = door();
+    expect(m.transition(DoorState.Opened(), DoorEvent.Close()).isOk()).toBe(true);
+    // @ts-expect-error Opened does not accept Open
+    expect(m.transition(DoorState.Opened(), DoorEvent.Open()).isErr()).toBe(true);
+    expect(m.state.tag).toBe("Closed");
+  });
+
+  it("bounds history and validates the transition table", () => {
+    const m = createMachine(DoorState, DoorEvent, {
+      Closed: { Open: () => DoorState.Opened() },
+      Opened: { Close: () => DoorState.Closed() },
+    }, { initial: DoorState.Closed(), historyLimit: 2 });
+    m.send(DoorEvent.Open());
+    m.send(DoorEvent.Close());
+    m.send(DoorEvent.Open());
+    expect(m.history.map((s) => s.to.tag)).toEqual(["Closed", "Opened"]);
+
+    expect(() =>
+      createMachine(DoorState, DoorEvent, { Ajar: {} } as any, { initial: DoorState.Closed() })
+    ).toThrow(/Unexpected state 'Ajar'/);
+  });
+});
@@ -0,0 +1,168 @@
+import { IronEnum, Option, Result, matchAll, matchAllExhaustive, when, NonExhaustiveMatchError } from "../mod";
+import type { OptionVariant } from "../mod";
+
+describe("match guards & payload patterns", () => {
+  const Response = IronEnum<{
+    Loading: undefined;
+    Error: { code: number; message: string };
+  }>();
+
+  const describeResponse = (r: typeof Response._.typeOf) =>
+    r.match({
+      Error: [
+        when({ code: 404 }, (e) => `missing: ${e.message}`),
+        when((e) => e.code >= 500, (e) => `server: ${e.code}`),
+      ],
+      _: (self) => `other: ${self.tag}`,
+    });
+
+  it("tries guarded arms in order before falling back to _", () => {
+    expect(describeResponse(Response.Error({ code: 404, message: "x" }))).toBe("missing: x");
+    expect(describeResponse(Response.Error({ code: 503, message: "x" }))).toBe("server: 503");
+    expect(describeResponse(Response.Error({ code: 400, message: "x" }))).toBe("other: Error");
+    expect(describeResponse(Response.Loading())).toBe("other: Loading");
+  });
+
+  it("a trailing plain handler catches the tag when no guard matches", () => {
+    const code = Response.Error({ code: 400, message: "bad" }).matchExhaustive({
+      Loading: () => 0,
+      Error: [when({ code: 404 }, (e) => -e.code), (e) => e.code],
+    });
+    expect(code).toBe(400);
+  });
+
+  it("narrows payloads with literal patterns", () => {
+    const notFound = Response.Error({ code: 404, message: "x" }).match({
+      Error: [when({ code: 404 }, (e) => { const c: 404 = e.code; return c; }), () => 0],
+      Loading: () => 0,
+    });
+    expect(notFound).toBe(404);
+  });
+
+  it("matches nested variant payloads", () => {
+    const R = Result<OptionVariant<{ Some: number; None: undefined }>, string>();
+    const O = Option<number>();
+    const inner = (r: typeof R._.typeOf) =>
+      r.match({
+        Ok: [when({ tag: "Some" }, (o) => o.unwrap()), () => "none"],
+        Err: (e) => e,
+      });
+    expect(inner(R.Ok(O.Some(3)))).toBe(3);
+    expect(inner(R.Ok(O.None()))).toBe("none");
+    expect(inner(R.Err("e"))).toBe("e");
+  });
+
+  it("matchAsync supports guarded arms", async () => {
+    const r = await Response.Error({ code: 404, message: "x" }).matchAsync({
+      Error: [when({ code: 404 }, async () => "nf")],
+      _: async () => "other",
+    });
+    expect(r).toBe("nf");
+  });
+
+  it("throws when no arm matches and there is no _", () => {
+    expect(() =>
+      Response.Error({ code: 1, message: "x" }).match({
+        Error: [when({ code: 2 }, () => 1)],
+      } as any)
+    ).toThrow(/No handler/);
+    expect(() =>
+      Response.Error({ code: 1, message: "x" }).match({ Ok: () => 1 } as any)
+    ).toThrow(NonExhaustiveMatchError);
+  });
+});
+
+describe("matchAll / matchAllExhaustive", () => {
+  const Status = IronEnum<{ Active: { since: number }; Suspended: undefined }>();
+  const Perm = IronEnum<{ Admin: undefined; User: { name: string } }>();
+
+  it("dispatches on tag pairs with wildcards and fallback", () => {
+    const label = (s: typeof Status._.typeOf, p: typeof Perm._.typeOf) =>
+      matchAll([s, p], {
+        "Active,Admin": (a) => `admin since ${a.data.since}`,
+        "Active,_": (_a, b) => `active ${b.tag}`,
+        _: () => "no access",
+      });
+
+    expect(label(Status.Active({ since: 1 }), Perm.Admin())).toBe("admin since 1");
+    expect(label(Status.Active({ since: 1 }), Perm.User({ name: "x" }))).toBe("active User");
+    expect(label(Status.Suspended(), Perm.Admin())).toBe("no access");
+  });
+
+  it("narrows every variant in the tuple", () => {
+    const name = matchAll([Status.Suspended(), Perm.User({ name: "ann" })] as [
+      typeof Status._.typeOf,
+      typeof Perm._.typeOf
+    ], {
+      "_,User": (_s, p) => p.data.name,
+      _: () => "",
+    });
+    expect(name).toBe("ann");
+  });
+
+  it("exhaustive form covers every combination of two Results", () => {
+    const R = Result<number, string>();
+    const sum = (a: typeof R._.typeOf, b: typeof R._.typeOf) =>
+      matchAllExhaustive([a, b], {
+        "Ok,Ok": (x, y) => x.data + y.data,
+        "Err,_": (x) => x.data,
+        "Ok,Err": (_x, y) => y.data,
+      });
+
+    expect(sum(R.Ok(1), R.Ok(2))).toBe(3);
+    expect(sum(R.Err("a"), R.Ok(2))).toBe("a");
+    expect(sum(R.Ok(1), R.Err("b"))).toBe("b");
+  });
+
+  it("rejects missing combinations at compile time", () => {
+    const run = () =>
+      // @ts-expect-error "Suspended,User" is not handled
+      matchAllExhaustive([Status.Suspended() as typeof Status._.typeOf, Perm.User({ name: "x" }) as typeof Perm._.typeOf], {
+        "Active,_": () => 1,
+        "Suspended,Admin": () => 2,
+      });
+    expect(run).toThrow(/No handler for 'Suspended,User'/);
+  });
+});
+
+describe("_.matcher", () => {
+  const Level = IronEnum<{ Low: undefined; Mid: { n: number }; High: { n: number } }>({
+    keys: ["Low", "Mid", "High"],
+  });
+
+  it("builds a reusable dispatch function", () => {
+    const score = Level._.matcher({
+      Low: () => 0,
+      Mid: ({ n }) => n,
+      High: [when({ n: 100 }, () => 1000), ({ n }) => n * 10],
+    });
+    const values = [Level.Low(), Level.Mid({ n: 2 }), Level.High({ n: 3 }), Level.High({ n: 100 })];
+    expect(values.map(score)).toEqual([0, 2, 30, 1000]);
+  });
+
+  it("falls back to _ for unlisted tags and unmatched arms", () => {
+    const label = Level._.matcher({
+      Mid: [when({ n: 1 }, () => "one")],
+      _: (self) => self.tag,
+    });
+    expect(label(Level.Mid({ n: 1 }))).toBe("one");
+    expect(label(Level.Mid({ n: 2 }))).toBe("Mid");
+    expect(label(Level.Low())).toBe("Low");
+  });
+
+  it("fails at construction when a tag is not covered", () => {
+    expect(() => Level._.matcher({ Low: () => 0, Mid: () => 1 } as any)).toThrow(/'High'/);
+    expect(() =>
+      Level._.matcher({ Low: () => 0, Mid: () => 1, High: [when({ n: 1 }, () => 2)] } as any)
+    ).toThrow(/'High'/);
+    expect(() => Level._.matcher({ Mid: () => 1 } as any)).toThrow(
+      expect.objectContaining({ code: "NON_EXHAUSTIVE_MATCH", tags: ["Low", "High"] })
+    );
+  });
+
+  it("works on Result factories", () => {
+    const R = Result<number, string>();
+    const toNumber = R._.matcher({ Ok: (n) => n, Err: (e) => e.length });
+    expect([R.Ok(5), R.Err("abc")].map(toNumber)).toEqual([5, 3]);
+  });
+});
@@ -1,4 +1,4 @@
-import { Option, Some, None } from "../mod";
+import { Option, Some, None, Ok, Err, UnwrapError } from "../mod";
 
 describe("Option helper", () => {
   const O = Option<number>();
@@ -30,8 +30,153 @@ describe("Option helper", () => {
     expect(() => errRes.unwrap()).toThrow(/bad/);
   });
 
+  it("parse / reviver hydrate full Option variants", () => {
+    const some = O._.parse({ tag: "Some", data: 5 });
+    expect(some.map((x) => x + 1).unwrap()).toBe(6);
+    expect(O._.parse({ tag: "None" }).isNone()).toBe(true);
+
+    const back = JSON.parse(JSON.stringify([O.Some(1), O.None()]), (_k, v) => O._.reviver(v));
+    expect(back[0].unwrap()).toBe(1);
+    expect(back[1].unwrap_or(7)).toBe(7);
+  });
+
   it("top-level Some / None convenience fns", () => {
     expect(Some("x").unwrap()).toBe("x");
     expect(() => None().unwrap()).toThrow();
   });
 });
+
+describe("Option equality", () => {
+  it("Some / None compare structurally across factories", () => {
+    expect(Some({ a: [1] }).equals(Option<{ a: number[] }>().Some({ a: [1] }))).toBe(true);
+    expect(Some(1).equals(Some(2))).toBe(false);
+    expect(None().equals(None())).toBe(true);
+    expect(Some(1).hash()).toBe(Some(1).hash());
+  });
+});
+
+describe("Option ordering", () => {
+  it("orders None before Some, then by value", () => {
+    const O = Option<number>();
+    expect(O.None().lt(O.Some(0))).toBe(true);
+    expect(O.Some(1).cmp(O.Some(2))).toBe(-1);
+    expect(O._.sortBy([O.Some(3), O.None(), O.Some(1)]).map((o) => o.toJSON())).toEqual([
+      { tag: "None" },
+      { tag: "Some", data: 1 },
+      { tag: "Some", data: 3 },
+    ]);
+  });
+});
+
+describe("Option errors", () => {
+  it("unwrap() on None throws UnwrapError", () => {
+    expect(() => None().unwrap()).toThrow(UnwrapError);
+    expect(() => None().unwrap()).toThrow(expect.objectContaining({ code: "UNWRAP_NONE" }));
+  });
+});
+
+describe("Option Rust API", () => {
+  const O = Option<number>();
+
+  it("expect returns the value or throws with the message", () => {
+    expect(O.Some(1).expect("needed")).toBe(1);
+    expect(() => O.None().expect("needed")).toThrow(UnwrapError);
+    expect(() => O.None().expect("needed")).toThrow("needed");
+  });
+
+  it("and / or / orElse / xor combine options", () => {
+    expect(O.Some(1).and(Some("a")).toJSON()).toEqual({ tag: "Some", data: "a" });
+    expect(O.None().and(Some("a")).isNone()).toBe(true);
+    expect(O.None().or(O.Some(2)).unwrap()).toBe(2);
+    expect(O.Some(1).or(O.Some(2)).unwrap()).toBe(1);
+    expect(O.None().orElse(() => O.Some(3)).unwrap()).toBe(3);
+    expect(O.Some(1).xor(O.None()).unwrap()).toBe(1);
+    expect(O.None().xor(O.Some(2)).unwrap()).toBe(2);
+    expect(O.Some(1).xor(O.Some(2)).isNone()).toBe(true);
+    expect(O.None().xor(O.None()).isNone()).toBe(true);
+
+    const fromFree: number = None().or(Some(2)).unwrap();
+    expect(fromFree).toBe(2);
+    const kept: number = Some(1).xor(None()).unwrap();
+    expect(kept).toBe(1);
+    const widened: number | string = O.None().orElse(() => Some("x")).unwrap();
+    expect(widened).toBe("x");
+  });
+
+  it("zip and unzip", () => {
+    expect(O.Some(1).zip(Some("a")).unwrap()).toEqual([1, "a"]);
+    expect(O.Some(1).zip(None()).isNone()).toBe(true);
+    const [a, b] = Some([1, "a"] as [number, string]).unzip();
+    expect(a.unwrap() + 1).toBe(2);
+    expect(b.unwrap().toUpperCase()).toBe("A");
+    const [c, d] = Option<[number, string]>().None().unzip();
+    expect(c.isNone() && d.isNone()).toBe(true);
+  });
+
+  it("mapOr / mapOrElse / inspect / predicates", () => {
+    expect(O.Some(2).mapOr(0, (x) => x * 2)).toBe(4);
+    expect(O.None().mapOrElse(() => -1, (x) => x * 2)).toBe(-1);
+    const seen: number[] = [];
+    O.Some(5).inspect((x) => seen.push(x));
+    O.None().inspect((x) => seen.push(x));
+    expect(seen).toEqual([5]);
+    expect(O.Some(3).isSomeAnd((x) => x > 2)).toBe(true);
+    expect(O.None().isSomeAnd(() => true)).toBe(false);
+    expect(O.None().isNoneOr(() => false)).toBe(true);
+    expect(O.Some(1).isNoneOr((x) => x > 2)).toBe(false);
+  });
+
+  it("flatten and transpose", () => {
+    expect(Some(Some(1)).flatten().unwrap()).toBe(1);
+    expect(Some(None()).flatten().isNone()).toBe(true);
+    expect(Some(Ok(1)).transpose().unwrap().unwrap()).toBe(1);
+    expect(Some(Err("bad")).transpose().toJSON()).toEqual({ tag: "Err", data: "bad" });
+    expect(Option<ReturnType<typeof Ok<number>>>().None().transpose().unwrap().isNone()).toBe(true);
+  });
+
+  it("unwrapOrDefault and nullable bridges", () => {
+    expect(O.Some(1).unwrapOrDefault()).toBe(1);
+    expect(O.None().unwrapOrDefault()).toBeUndefined();
+    expect(O.Some(1).toNullable()).toBe(1);
+    expect(O.None().toNullable()).toBeNull();
+    const map = new Map([["a", 1]]);
+    expect(Option.fromNullable(map.get("a")).unwrap()).toBe(1);
+    expect(Option.fromNullable(map.get("b")).isNone()).toBe(true);
+    expect(Option.fromNullable(0).isSome()).toBe(true);
+    expect(Option.fromNullable(null).isNone()).toBe(true);
+  });
+
+  it("take / replace / getOrInsertWith return the updated option", () => {
+    const [taken, rest] = O.Some(1).take();
+    expect(taken.unwrap()).toBe(1);
+    expect(rest.isNone()).toBe(true);
+
+    const [prev, current] = O.None().replace(2);
+    expect(prev.isNone()).toBe(true);
+    expect(current.unwrap()).toBe(2);
+
+    const calls: number[] = [];
+    const [value, filled] = O.None().getOrInsertWith(() => (calls.push(1), 7));
+    expect(value).toBe(7);
+    expect(filled.unwrap()).toBe(7);
+    const [kept] = filled.getOrInsertWith(() => (calls.push(1), 8));
+    expect(kept).toBe(7);
+    expect(calls).toHaveLength(1);
+  });
+});
+
+describe("Option combinators", () => {
+  const O = Option<number>();
+
+  it("all keeps tuple types and fails on any None", () => {
+    const [n, s]: [number, string] = Option.all([Some(1), Some("a")]).unwrap();
+    expect([n, s]).toEqual([1, "a"]);
+    expect(Option.all([O.Some(1), O.None()]).isNone()).toBe(true);
+  });
+
+  it("values compacts and firstSome picks the first value", () => {
+    expect(Option.values([O.Some(1), O.None(), O.Some(3)])).toEqual([1, 3]);
+    expect(Option.firstSome([O.None(), O.Some(2), O.Some(3)]).unwrap()).toBe(2);
+    expect(Option.firstSome([O.None()]).isNone()).toBe(true);
+  });
+});
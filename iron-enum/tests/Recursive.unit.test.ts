@@ -0,0 +1,65 @@
+import { IronEnum } from "../mod";
+import type { EnumFactoryUnion } from "../mod";
+
+type Expr = {
+  Num: number;
+  Neg: { of: EnumFactoryUnion<Expr> };
+  Add: { args: [EnumFactoryUnion<Expr>, EnumFactoryUnion<Expr>] };
+  Sum: { items: EnumFactoryUnion<Expr>[] };
+};
+
+describe("Recursive enums", () => {
+  const Expr = IronEnum<Expr>({ keys: ["Num", "Neg", "Add", "Sum"] });
+  const sum = Expr.Sum({ items: [Expr.Num(1), Expr.Num(3), Expr.Num(4)] });
+  const tree = Expr.Add({ args: [Expr.Neg({ of: Expr.Num(2) }), sum] });
+
+  it("fold evaluates bottom-up with one handler per tag", () => {
+    const value = Expr._.fold<number>(tree, {
+      Num: (n) => n,
+      Neg: ({ of }) => -of,
+      Add: ({ args: [a, b] }) => a + b,
+      Sum: ({ items }) => items.reduce((a, b) => a + b, 0),
+    });
+    expect(value).toBe(6);
+
+    const show = Expr._.fold<string>(tree, {
+      Num: (n) => String(n),
+      Neg: ({ of }) => `-${of}`,
+      Add: ({ args: [a, b] }) => `(${a} + ${b})`,
+      Sum: ({ items }) => `sum(${items.join(", ")})`,
+    });
+    expect(show).toBe("(-2 + sum(1, 3, 4))");
+  });
+
+  it("transform rewrites nodes and shares untouched subtrees", () => {
+    const simplified = Expr._.transform(tree, (node) =>
+      node.tag === "Neg" && node.data.of.tag === "Num" ? Expr.Num(-node.data.of.data) : node
+    );
+    expect(simplified.equals(Expr.Add({ args: [Expr.Num(-2), sum] }))).toBe(true);
+    expect(simplified.data).not.toBe(tree.data);
+    expect((simplified.data as Expr["Add"]).args[1]).toBe(sum);
+    expect(Expr._.transform(tree, (n) => n)).toBe(tree);
+  });
+
+  it("walks children built by impl and extend copies of the enum", () => {
+    const Pretty = Expr._.impl({ describe() { return "expr"; } });
+    const mixed = Pretty.Neg({ of: Expr.Sum({ items: [Pretty.Num(1), Expr.Num(2)] }) });
+    expect(Expr._.fold<number>(mixed, {
+      Num: (n) => n,
+      Neg: ({ of }) => -of,
+      Add: ({ args: [a, b] }) => a + b,
+      Sum: ({ items }) => items.reduce((a, b) => a + b, 0),
+    })).toBe(-3);
+
+    const Wider = Expr._.extend<{ Zero: undefined }>(["Zero"]);
+    const wide = Wider.Neg({ of: Expr.Num(4) as any });
+    expect(Wider._.transform(wide, (n) => (n.tag === "Num" ? Wider.Zero() : n)).data).toEqual({ of: Wider.Zero() });
+  });
+
+  it("leaves variants of other enums alone", () => {
+    const Other = IronEnum<{ Num: number }>();
+    const mixed = Expr.Neg({ of: Other.Num(5) as any });
+    expect(() => Expr._.fold(mixed, { Neg: ({ of }: any) => of } as any)).not.toThrow();
+    expect(Expr._.fold(mixed, { Neg: ({ of }: any) => of } as any)).toBe(mixed.data.of);
+  });
+});
@@ -0,0 +1,54 @@
+import { IronEnum } from "../mod";
+
+describe("_.reducer", () => {
+  const AccountEvent = IronEnum<{
+    Opened: { owner: string };
+    Deposited: { amount: number };
+    Withdrawn: { amount: number };
+  }>({ keys: ["Opened", "Deposited", "Withdrawn"] });
+
+  type Account = { owner: string; balance: number };
+
+  const account = AccountEvent._.reducer<Account>({ owner: "", balance: 0 }, {
+    Opened: (s, { owner }) => ({ ...s, owner }),
+    Deposited: (s, { amount }) => ({ ...s, balance: s.balance + amount }),
+    Withdrawn: (s, { amount }) => ({ ...s, balance: s.balance - amount }),
+  });
+
+  const events = [
+    AccountEvent.Opened({ owner: "ada" }),
+    AccountEvent.Deposited({ amount: 100 }),
+    AccountEvent.Withdrawn({ amount: 30 }),
+  ];
+
+  it("replays events and works as a plain reducer", () => {
+    expect(account.replay(events)).toEqual({ owner: "ada", balance: 70 });
+    expect(events.reduce(account, account.initial)).toEqual({ owner: "ada", balance: 70 });
+    expect(account.replay([AccountEvent.Deposited({ amount: 5 })], { owner: "x", balance: 1 }).balance).toBe(6);
+  });
+
+  it("resumes from snapshots", () => {
+    const first = account.snapshot(events.slice(0, 2));
+    expect(first).toEqual({ state: { owner: "ada", balance: 100 }, version: 2 });
+    const next = account.snapshot(events.slice(first.version), first);
+    expect(next).toEqual({ state: { owner: "ada", balance: 70 }, version: 3 });
+  });
+
+  it("folds async iterables", async () => {
+    async function* stream() {
+      for (const e of events) yield e;
+    }
+    expect(await account.replayAsync(stream())).toEqual({ owner: "ada", balance: 70 });
+    expect((await account.snapshotAsync(stream())).version).toBe(3);
+  });
+
+  it("requires a handler for every event", () => {
+    expect(() =>
+      // @ts-expect-error Withdrawn is not handled
+      AccountEvent._.reducer(0, {
+        Opened: (n) => n,
+        Deposited: (n, { amount }) => n + amount,
+      })
+    ).toThrow(/'Withdrawn'/);
+  });
+});
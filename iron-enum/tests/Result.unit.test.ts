@@ -1,4 +1,4 @@
-import { Result, Ok, Err } from "../mod";
+import { Result, Ok, Err, Some, None, UnwrapError, IronEnumError, ResultVariant, Try } from "../mod";
 
 describe("Result helper", () => {
   const R = Result<number, string>();
@@ -20,8 +20,263 @@ describe("Result helper", () => {
     expect(err.ok().isNone()).toBe(true);
   });
 
+  it("Ok and Err variants share prototypes across factories", () => {
+    const other = Result<string, Error>();
+    expect(Object.getPrototypeOf(R.Ok(1))).toBe(Object.getPrototypeOf(other.Ok("a")));
+    expect(Object.keys(R.Err("x"))).toEqual(["tag", "data", "instance"]);
+    expect(R.Ok(1).map((x) => x + 1).unwrap()).toBe(2);
+    expect(R.Err("x").mapErr((e) => e + "!").toJSON()).toEqual({ tag: "Err", data: "x!" });
+  });
+
+  it("unnamed factories and Try reuse one shared factory", () => {
+    expect(Result<string, Error>()).toBe(R);
+    expect(Try.sync(() => 1).instance).toBe(Ok(1).instance);
+    expect(Result<number, string>({ name: "Named" })).not.toBe(R);
+  });
+
+  it("parse / fromJSON / reviver hydrate full Result variants", () => {
+    const ok = R._.parse(JSON.parse(JSON.stringify(R.Ok(3))));
+    expect(ok.isOk()).toBe(true);
+    expect(ok.map((x) => x * 2).unwrap()).toBe(6);
+
+    const err = R._.fromJSON({ tag: "Err", data: "bad" });
+    expect(err.isErr()).toBe(true);
+    expect(err.unwrap_or(1)).toBe(1);
+    expect(err.instance).toBe(R);
+
+    const cached = JSON.parse(JSON.stringify({ a: R.Ok(1), b: R.Err("x") }), (_k, v) => R._.reviver(v));
+    expect(cached.a.andThen((x: number) => R.Ok(x + 1)).unwrap()).toBe(2);
+    expect(cached.b.ok().isNone()).toBe(true);
+  });
+
+  it("_.impl adds methods to Ok and Err variants", () => {
+    const Checked = R._.impl({
+      describe(): string {
+        return this.isOk() ? `ok:${this.unwrap()}` : "err";
+      },
+    });
+    expect(Checked.Ok(2).describe()).toBe("ok:2");
+    // Mapped variants stay on the same factory and keep its methods
+    expect((Checked.Ok(1).map((x) => x + 1) as typeof Checked._.typeOf).describe()).toBe("ok:2");
+    expect(Checked.Err("x").describe()).toBe("err");
+    expect(Checked._.parse({ tag: "Ok", data: 5 }).describe()).toBe("ok:5");
+  });
+
   it("top-level Ok/Err helpers", () => {
     expect(Ok(123).unwrap()).toBe(123);
     expect(() => Err("bad").unwrap()).toThrow();
   });
 });
+
+describe("Result ordering", () => {
+  it("orders Ok before Err, like Rust's Ord", () => {
+    const R = Result<number, string>();
+    expect(R.Ok(100).lt(R.Err("a"))).toBe(true);
+    expect(R.Err("b").gt(R.Err("a"))).toBe(true);
+    expect(R._.compare(R.Ok(1), R.Ok(1))).toBe(0);
+  });
+});
+
+describe("Result payload updates", () => {
+  it("update() keeps the variant class", () => {
+    const R = Result<number, string>();
+    const next = R.Ok(1).update((n) => n + 1) as typeof R._.typeOf;
+    expect(next.unwrap()).toBe(2);
+  });
+});
+
+describe("Result errors", () => {
+  it("unwrap() on Err throws UnwrapError carrying the payload", () => {
+    let caught: unknown;
+    try {
+      Err({ status: 403 }).unwrap();
+    } catch (e) {
+      caught = e;
+    }
+    expect(caught).toBeInstanceOf(UnwrapError);
+    expect(caught).toBeInstanceOf(IronEnumError);
+    expect((caught as UnwrapError).code).toBe("UNWRAP_ERR");
+    expect((caught as UnwrapError).cause).toEqual({ status: 403 });
+    expect(((caught as UnwrapError).variant as any).tag).toBe("Err");
+  });
+
+  it("unwrap() rethrows Error payloads unchanged, expect() keeps its message", () => {
+    const boom = new Error("ENOENT");
+    expect(() => Err(boom).unwrap()).toThrow(boom);
+    let caught: unknown;
+    try {
+      Err(boom).expect("config must be readable");
+    } catch (e) {
+      caught = e;
+    }
+    expect(caught).toBeInstanceOf(UnwrapError);
+    expect((caught as UnwrapError).message).toBe("config must be readable: ENOENT");
+    expect((caught as UnwrapError).cause).toBe(boom);
+  });
+});
+
+describe("Result Rust API", () => {
+  const R = Result<number, string>();
+  const ok = R.Ok(2);
+  const err = R.Err("bad");
+
+  it("extracts values and errors", () => {
+    expect(ok.err().isNone()).toBe(true);
+    expect(err.err().unwrap()).toBe("bad");
+    expect(ok.expect("needs value")).toBe(2);
+    expect(() => err.expect("needs value")).toThrow(/^needs value: bad$/);
+    expect(err.unwrapErr()).toBe("bad");
+    expect(err.expectErr("x")).toBe("bad");
+    expect(() => ok.unwrapErr()).toThrow(expect.objectContaining({ code: "UNWRAP_OK" }));
+    expect(() => ok.expectErr("should fail")).toThrow(/should fail/);
+    expect(ok.unwrapOrDefault()).toBe(2);
+    expect(err.unwrapOrDefault()).toBeUndefined();
+  });
+
+  it("combines results", () => {
+    expect(ok.and(R.Ok(3)).unwrap()).toBe(3);
+    expect(err.and(R.Ok(3)).unwrapErr()).toBe("bad");
+    expect(ok.or(R.Err("x")).unwrap()).toBe(2);
+    expect(err.or(R.Ok(9)).unwrap()).toBe(9);
+    expect(err.orElse((e) => R.Ok(e.length)).unwrap()).toBe(3);
+    expect(ok.orElse(() => R.Ok(0)).unwrap()).toBe(2);
+  });
+
+  it("maps with fallbacks and predicates", () => {
+    expect(ok.mapOr(0, (x) => x * 10)).toBe(20);
+    expect(err.mapOr(0, (x) => x * 10)).toBe(0);
+    expect(err.mapOrElse((e) => e.length, (x) => x)).toBe(3);
+    expect(ok.isOkAnd((x) => x > 1)).toBe(true);
+    expect(err.isOkAnd(() => true)).toBe(false);
+    expect(err.isErrAnd((e) => e === "bad")).toBe(true);
+  });
+
+  it("inspects without changing the result", () => {
+    const seen: unknown[] = [];
+    expect(ok.inspect((v) => seen.push(v)).inspectErr((e) => seen.push(e))).toBe(ok);
+    expect(err.inspect((v) => seen.push(v)).inspectErr((e) => seen.push(e))).toBe(err);
+    expect(seen).toEqual([2, "bad"]);
+  });
+
+  it("flattens, transposes and iterates", () => {
+    expect(Ok(Ok(1)).flatten().unwrap()).toBe(1);
+    expect(Ok(Err("inner")).flatten().unwrapErr()).toBe("inner");
+    expect(Err("outer").flatten().isErr()).toBe(true);
+
+    const t1 = Ok(Some(1)).transpose();
+    expect(t1.isSome() && t1.unwrap().unwrap()).toBe(1);
+    expect(Ok(None()).transpose().isNone()).toBe(true);
+    expect(Err("e").transpose().unwrap().unwrapErr()).toBe("e");
+
+    expect([...ok.iter()]).toEqual([2]);
+    expect([...err.iter()]).toEqual([]);
+    expect([ok, err, R.Ok(5)].flatMap((r) => [...r.iter()])).toEqual([2, 5]);
+  });
+});
+
+describe("Result combinators", () => {
+  const R = Result<number, string>();
+
+  it("all keeps tuple types and returns the first Err", () => {
+    const [n, s]: [number, string] = Result.all([Ok(1), Ok("a")]).unwrap();
+    expect([n, s]).toEqual([1, "a"]);
+    expect(Result.all([R.Ok(1), R.Err("x"), R.Err("y")]).unwrapErr()).toBe("x");
+    expect(Result.all([]).unwrap()).toEqual([]);
+  });
+
+  it("allSettled returns every error", () => {
+    expect(Result.allSettled([R.Ok(1), R.Err("x"), R.Err("y")]).unwrapErr()).toEqual(["x", "y"]);
+    expect(Result.allSettled([R.Ok(1), R.Ok(2)]).unwrap()).toEqual([1, 2]);
+    expect(Result.collectErrors([R.Ok(1), R.Err("x")]).unwrapErr()).toEqual(["x"]);
+  });
+
+  it("partition splits values and errors", () => {
+    const [oks, errs] = Result.partition([R.Ok(1), R.Err("x"), R.Ok(2)]);
+    expect(oks).toEqual([1, 2]);
+    expect(errs).toEqual(["x"]);
+  });
+
+  it("any returns the first Ok or every error", () => {
+    expect(Result.any([R.Err("x"), R.Ok(2), R.Ok(3)]).unwrap()).toBe(2);
+    const [a, b]: [string, number] = Result.any([Err("x"), Err(1)]).unwrapErr();
+    expect([a, b]).toEqual(["x", 1]);
+  });
+
+  it("collect and traverse stop at the first Err", () => {
+    expect(Result.collect(new Set([R.Ok(1), R.Ok(2)])).unwrap()).toEqual([1, 2]);
+    const seen: number[] = [];
+    const out = Result.traverse([1, 2, 3], (x) => (seen.push(x), x === 2 ? R.Err(`bad ${x}`) : R.Ok(x * 10)));
+    expect(out.unwrapErr()).toBe("bad 2");
+    expect(seen).toEqual([1, 2]);
+    expect(Result.traverse(["a", "b"], (s, i) => R.Ok(i)).unwrap()).toEqual([0, 1]);
+  });
+});
+
+describe("Result error widening", () => {
+  class DbError { readonly kind = "db"; }
+  class AuthError { readonly kind = "auth"; }
+  type User = { id: number };
+  type Token = { value: string };
+
+  const Users = Result<User, DbError>();
+  const Tokens = Result<Token, AuthError>();
+  const loadUser = (id: number) => (id > 0 ? Users.Ok({ id }) : Users.Err(new DbError()));
+  const issueToken = (u: User) => (u.id === 1 ? Tokens.Ok({ value: "t1" }) : Tokens.Err(new AuthError()));
+
+  it("andThen and and widen the error type", () => {
+    const token = loadUser(1).andThen(issueToken);
+    const value: Token = token.unwrap();
+    expect(value.value).toBe("t1");
+
+    const denied = loadUser(2).andThen(issueToken);
+    const err: DbError | AuthError = denied.unwrapErr();
+    expect(err.kind).toBe("auth");
+
+    const both = loadUser(-1).and(issueToken({ id: 1 }));
+    const bothErr: DbError | AuthError = both.unwrapErr();
+    expect(bothErr.kind).toBe("db");
+  });
+
+  it("orElse and or widen the ok type", () => {
+    const recovered = loadUser(-1).orElse(() => issueToken({ id: 1 }));
+    const v: User | Token = recovered.unwrap();
+    expect(v).toEqual({ value: "t1" });
+    const e: AuthError = loadUser(-1).orElse(() => issueToken({ id: 2 })).unwrapErr();
+    expect(e.kind).toBe("auth");
+    expect(loadUser(-1).or(Ok("fallback")).unwrap()).toBe("fallback");
+  });
+
+  it("mixed Ok() / Err() returns unify in callbacks and annotated functions", () => {
+    const safeDivide = (n: number) => (n === 0 ? Err("div by 0") : Ok(10 / n));
+    const quotient: number = Ok(5).andThen(safeDivide).unwrap();
+    expect(quotient).toBe(2);
+    const msg: string = Ok(0).andThen(safeDivide).unwrapErr();
+    expect(msg).toBe("div by 0");
+
+    const parse = (s: string): ResultVariant<{ Ok: number; Err: string }> => (s ? Ok(Number(s)) : Err("empty"));
+    expect(parse("3").unwrap()).toBe(3);
+    expect(parse("").match({ Ok: () => "", Err: (e) => e })).toBe("empty");
+  });
+
+  it("array combinators collect every error type", () => {
+    const all = Result.all([loadUser(1), issueToken({ id: 2 })]);
+    const err: DbError | AuthError = all.unwrapErr();
+    expect(err).toBeInstanceOf(AuthError);
+  });
+});
+
+describe("Result derived factories", () => {
+  const R = Result<number, string>();
+
+  it("pick, omit and extend keep the Result methods", () => {
+    const OnlyOk = R._.pick(["Ok"]);
+    expect((OnlyOk.Ok(2) as any).map((x: number) => x + 1).unwrap()).toBe(3);
+    expect((R._.omit(["Ok"]).Err("x") as any).unwrapErr()).toBe("x");
+
+    const WithPending = R._.extend<{ Pending: undefined }>(["Pending"]);
+    expect((WithPending.Ok(1) as any).isOk()).toBe(true);
+    expect(WithPending.Pending().tag).toBe("Pending");
+    expect(WithPending._.keys).toEqual(["Ok", "Err", "Pending"]);
+    expect((WithPending._.parse({ tag: "Err", data: "e" }) as any).unwrapErr()).toBe("e");
+  });
+});
@@ -0,0 +1,204 @@
+import { IronEnum, IronEnumParseError, IronEnumDefinitionError, Result, createEnumRegistry } from "../mod";
+
+type Shape = {
+  Circle: { r: number };
+  Rect: { w: number; h: number };
+  Empty: undefined;
+};
+
+const roundTrip = <T>(value: unknown, reviver: (v: unknown) => unknown): T =>
+  JSON.parse(JSON.stringify(value), (_k, v) => reviver(v));
+
+describe("wire formats", () => {
+  it("adjacent by default", () => {
+    const S = IronEnum<Shape>({ keys: ["Circle", "Rect", "Empty"] });
+    expect(JSON.parse(JSON.stringify(S.Circle({ r: 1 })))).toEqual({ tag: "Circle", data: { r: 1 } });
+    const back = roundTrip<typeof S._.typeOf>([S.Circle({ r: 1 }), S.Empty()], S._.reviver);
+    expect((back as any)[1].equals(S.Empty())).toBe(true);
+  });
+
+  it("adjacent with custom keys", () => {
+    const S = IronEnum<Shape, { tagging: "adjacent"; tag: "t"; content: "c" }>({
+      keys: ["Circle", "Rect", "Empty"],
+      wire: { tagging: "adjacent", tag: "t", content: "c" },
+    });
+    const json: typeof S._.typeJson = S.Rect({ w: 1, h: 2 }).toJSON();
+    expect(json).toEqual({ t: "Rect", c: { w: 1, h: 2 } });
+    expect(S._.parse({ t: "Rect", c: { w: 1, h: 2 } }).data.h).toBe(2);
+    expect(S._.parse({ t: "Empty" }).tag).toBe("Empty");
+  });
+
+  it("internal tagging", () => {
+    const S = IronEnum<Shape, { tagging: "internal"; tag: "type" }>({
+      keys: ["Circle", "Rect", "Empty"],
+      units: ["Empty"],
+      wire: { tagging: "internal", tag: "type" },
+    });
+    expect(S.Circle({ r: 2 }).toJSON()).toEqual({ type: "Circle", r: 2 });
+    expect(S.Empty().toJSON()).toEqual({ type: "Empty" });
+    const parsed = S._.parse({ type: "Rect", w: 3, h: 4 });
+    expect(parsed.tag).toBe("Rect");
+    expect(parsed.data).toEqual({ w: 3, h: 4 });
+    const back = roundTrip<any>({ shapes: [S.Circle({ r: 2 }), S.Empty()] }, S._.reviver);
+    expect(back.shapes[0].equals(S.Circle({ r: 2 }))).toBe(true);
+    expect(back.shapes[1].tag).toBe("Empty");
+    expect(back.shapes[1].data).toBeUndefined();
+  });
+
+  it("internal tagging rejects payloads it cannot flatten", () => {
+    const S = IronEnum<
+      { Num: number; List: number[]; Typed: { type: string }; Blank: {}; Unit: undefined },
+      { tagging: "internal"; tag: "type" }
+    >({ keys: ["Num", "List", "Typed", "Blank", "Unit"], units: ["Unit"], wire: { tagging: "internal", tag: "type" } });
+    expect(() => S.Num(5).toJSON()).toThrow(IronEnumDefinitionError);
+    expect(() => S.Num(5).toJSON()).toThrow(expect.objectContaining({ code: "INVALID_PAYLOAD" }));
+    expect(() => S.List([1]).toJSON()).toThrow(/an array/);
+    expect(() => S.Typed({ type: "x" }).toJSON()).toThrow(/field 'type'/);
+
+    expect(S.Blank({}).toJSON()).toEqual({ type: "Blank" });
+    expect(S._.parse({ type: "Blank" }).data).toEqual({});
+    expect(S._.parse({ type: "Unit" }).data).toBeUndefined();
+  });
+
+  it("internal tagging revivers leave unrelated objects alone", () => {
+    const wire = { tagging: "internal", tag: "type" } as const;
+    const keyed = IronEnum<Shape, typeof wire>({ keys: ["Circle", "Rect", "Empty"], wire });
+    const text = '{"owner":{"type":"user"},"shape":{"type":"Circle","r":1}}';
+    const back: any = JSON.parse(text, (_k, v) => keyed._.reviver(v));
+    expect(back.owner).toEqual({ type: "user" });
+    expect(back.shape.tag).toBe("Circle");
+
+    const keyless = IronEnum<Shape, typeof wire>({ wire });
+    expect(JSON.parse(text, (_k, v) => keyless._.reviver(v)).shape).toEqual({ type: "Circle", r: 1 });
+
+    const named = IronEnum<Shape, typeof wire>({ wire, name: "Shape" });
+    const stamped = JSON.stringify({ owner: { type: "user" }, shape: named.Circle({ r: 1 }) });
+    const revived: any = JSON.parse(stamped, (_k, v) => named._.reviver(v));
+    expect(revived.owner).toEqual({ type: "user" });
+    expect(revived.shape.tag).toBe("Circle");
+  });
+
+  it("external tagging", () => {
+    const S = IronEnum<Shape, { tagging: "external" }>({
+      keys: ["Circle", "Rect", "Empty"],
+      wire: { tagging: "external" },
+    });
+    expect(S.Circle({ r: 2 }).toJSON()).toEqual({ Circle: { r: 2 } });
+    expect(S.Empty().toJSON()).toBe("Empty");
+    expect(S._.parse({ Circle: { r: 5 } }).data.r).toBe(5);
+    expect(S._.parse("Empty").tag).toBe("Empty");
+    const back = roundTrip<any>([S.Rect({ w: 1, h: 1 }), S.Empty(), "other"], S._.reviver);
+    expect(back[0].tag).toBe("Rect");
+    expect(back[1]).toBe("Empty");
+    expect(back[2]).toBe("other");
+  });
+
+  it("external tagging revivers need keys", () => {
+    const S = IronEnum<Shape, { tagging: "external" }>({ wire: { tagging: "external" } });
+    const back: any = JSON.parse('{"user":{"name":"x"}}', (_k, v) => S._.reviver(v));
+    expect(back).toEqual({ user: { name: "x" } });
+    expect(S._.parse({ Circle: { r: 1 } }).tag).toBe("Circle");
+  });
+
+  it("external tagging revivers leave strings that match a tag alone", () => {
+    const S = IronEnum<Shape, { tagging: "external" }>({
+      keys: ["Circle", "Rect", "Empty"],
+      wire: { tagging: "external" },
+    });
+    const back: any = JSON.parse('{"user":{"name":"Empty"},"shape":{"Circle":{"r":1}}}', (_k, v) => S._.reviver(v));
+    expect(back.user).toEqual({ name: "Empty" });
+    expect(back.shape.tag).toBe("Circle");
+  });
+
+  it("untagged with a resolver", () => {
+    const S = IronEnum<Shape, { tagging: "untagged" }>({
+      wire: { tagging: "untagged" },
+      resolve: (json: any) =>
+        json == null ? "Empty" : "r" in json ? "Circle" : "w" in json ? "Rect" : undefined,
+    });
+    expect(S.Circle({ r: 2 }).toJSON()).toEqual({ r: 2 });
+    expect(S._.parse({ w: 1, h: 2 }).tag).toBe("Rect");
+    expect(() => IronEnum<Shape, { tagging: "untagged" }>({ wire: { tagging: "untagged" } })._.parse({ r: 1 }))
+      .toThrow(/resolve/);
+  });
+
+  it("rejects values that are not in the wire format", () => {
+    const S = IronEnum<Shape>({ keys: ["Circle", "Rect", "Empty"] });
+    expect(() => S._.parse({ kind: "Circle" } as any)).toThrow(/wire format/);
+    expect(() => S._.parse({ tag: "Triangle", data: 1 } as any)).toThrow(/Unexpected variant/);
+    expect(() => S._.parse({ tag: "Triangle", data: 1 } as any)).toThrow(IronEnumParseError);
+    expect(() => S._.parse({ kind: "Circle" } as any)).toThrow(
+      expect.objectContaining({ code: "INVALID_WIRE_FORMAT", input: { kind: "Circle" } })
+    );
+  });
+});
+
+describe("enum registry", () => {
+  const Status = IronEnum<{ Active: undefined; Banned: { reason: string } }>({
+    keys: ["Active", "Banned"],
+    name: "Status",
+  });
+  const Event = IronEnum<
+    { Changed: { from: typeof Status._.typeOf; to: typeof Status._.typeOf } },
+    { tagging: "internal"; tag: "type" }
+  >({
+    keys: ["Changed"],
+    name: "Event",
+    wire: { tagging: "internal", tag: "type" },
+  });
+
+  it("named enums carry their name on the wire", () => {
+    expect(JSON.parse(JSON.stringify(Status.Banned({ reason: "spam" })))).toEqual({
+      enum: "Status",
+      tag: "Banned",
+      data: { reason: "spam" },
+    });
+    expect(Status._.name).toBe("Status");
+  });
+
+  it("revives nested variants of different enums", () => {
+    const registry = createEnumRegistry(Status, Event);
+    const event = Event.Changed({ from: Status.Active(), to: Status.Banned({ reason: "spam" }) });
+    const back: any = registry.parse(JSON.stringify({ events: [event] }));
+    expect(back.events[0].tag).toBe("Changed");
+    expect(back.events[0].data.to.equals(Status.Banned({ reason: "spam" }))).toBe(true);
+    expect(back.events[0].data.from.instance).toBe(Status);
+  });
+
+  it("revives named Result factories", () => {
+    const R = Result<typeof Status._.typeOf, string>({ name: "StatusResult" });
+    const registry = createEnumRegistry(Status).register(R);
+    const back: any = registry.parse(JSON.stringify(R.Ok(Status.Active())));
+    expect(back.isOk()).toBe(true);
+    expect(back.unwrap().equals(Status.Active())).toBe(true);
+    expect(registry.get("StatusResult")).toBe(R);
+  });
+
+  it("a factory reviver ignores values of another enum", () => {
+    const Other = IronEnum<{ Active: undefined }>({ keys: ["Active"], name: "Other" });
+    const text = JSON.stringify(Other.Active());
+    const back: any = JSON.parse(text, (_k, v) => Status._.reviver(v));
+    expect(back).toEqual({ enum: "Other", tag: "Active" });
+  });
+
+  it("chained factory revivers leave each other's tags alone", () => {
+    const S = IronEnum<{ A: undefined; B: number }>({ keys: ["A", "B"] });
+    const R = Result<typeof S._.typeOf, string>();
+    const text = JSON.stringify(R.Ok(S.B(2)));
+    const back: any = JSON.parse(text, (_k, v) => R._.reviver(S._.reviver(v)));
+    expect(back.tag).toBe("Ok");
+    expect(back.unwrap().tag).toBe("B");
+    expect(back.unwrap().data).toBe(2);
+  });
+
+  it("reports unknown enum names and bad registrations", () => {
+    const registry = createEnumRegistry(Status);
+    expect(() => registry.parse('{"enum":"Nope","tag":"A"}')).toThrow(/Unknown enum 'Nope'. Registered: 'Status'/);
+    const plain = '{"product":{"enum":"Nope","tag":"A"}}';
+    expect(JSON.parse(plain, (_k, v) => registry.reviver(v))).toEqual({ product: { enum: "Nope", tag: "A" } });
+    expect(() => registry.register(IronEnum<{ A: undefined }>())).toThrow(/named/);
+    expect(() =>
+      registry.register(IronEnum<{ A: undefined }>({ name: "Status" }))
+    ).toThrow(/already registered/);
+  });
+});